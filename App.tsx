@@ -1,26 +1,102 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import World from './components/World';
 import Overlay from './components/Overlay';
-import { AppSection } from './types';
+import FallbackSite from './components/FallbackSite';
+import { AppSection, PortfolioManifest } from './types';
+import { loadPortfolioManifest, ManifestValidationError } from './services/portfolioManifest';
+import { useSectionRoute } from './services/router';
+import { useDisplayState, reportWorldFailure } from './services/displayMode';
+import { dispatch } from './services/appState';
 
 const App: React.FC = () => {
-  const [activeSection, setActiveSection] = useState<AppSection>(AppSection.HOME);
+  // Active section mirrors the URL hash so sections can be deep linked and closed with Back
+  const { section: activeSection, openSection, closeSection } = useSectionRoute();
+  // 3D world, or the plain page when WebGL is missing, motion is reduced or the visitor skipped it
+  const display = useDisplayState();
+  // The world's focus target, so closing an overlay puts keyboard focus back on the canvas
+  const worldFocusRef = useRef<HTMLDivElement>(null);
+
+  // An open section pauses the world; closing it resumes driving
+  useEffect(() => {
+    dispatch(activeSection === AppSection.HOME ? 'closeOverlay' : 'openOverlay');
+  }, [activeSection]);
+
+  // Validate portfolio.json once on load; a bad manifest renders the error list instead of the world
+  const manifestResult = useMemo<{ manifest: PortfolioManifest } | { issues: string[] }>(() => {
+    try {
+      return { manifest: loadPortfolioManifest() };
+    } catch (e) {
+      if (e instanceof ManifestValidationError) {
+        console.error(e.message);
+        return { issues: e.issues };
+      }
+      throw e;
+    }
+  }, []);
+
+  if ('issues' in manifestResult) {
+    return <ManifestErrorScreen issues={manifestResult.issues} />;
+  }
+
+  const { manifest } = manifestResult;
+
+  if (display.mode === 'simple') {
+    return <FallbackSite manifest={manifest} display={display} activeSection={activeSection} onNavigate={openSection} />;
+  }
 
   return (
     <main className="relative w-full h-screen overflow-hidden font-sans">
       {/* 3D World serves as the background and main navigation */}
-      <World 
-        onSectionEnter={setActiveSection} 
-        isOverlayOpen={activeSection !== AppSection.HOME}
-      />
+      <WorldErrorBoundary>
+        <World 
+          manifest={manifest}
+          activeSection={activeSection}
+          onSectionEnter={openSection} 
+          isOverlayOpen={activeSection !== AppSection.HOME}
+          focusRef={worldFocusRef}
+        />
+      </WorldErrorBoundary>
 
       {/* Overlay UI for specific sections (Veo, Image Editor, Contact) */}
       <Overlay 
+        manifest={manifest}
         activeSection={activeSection} 
-        onClose={() => setActiveSection(AppSection.HOME)} 
+        onClose={closeSection} 
+        returnFocusRef={worldFocusRef}
       />
     </main>
   );
 };
 
-export default App;
\ No newline at end of file
+// A world that fails to start (usually WebGL context creation) switches the app to the plain page
+class WorldErrorBoundary extends React.Component<{ children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    reportWorldFailure(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+const ManifestErrorScreen: React.FC<{ issues: string[] }> = ({ issues }) => (
+  <main className="w-full h-screen flex items-center justify-center bg-slate-100 p-8 font-sans">
+    <div className="bg-white rounded-2xl shadow-xl max-w-2xl w-full p-8 space-y-4">
+      <h1 className="text-2xl font-bold text-red-600">portfolio.json is invalid</h1>
+      <p className="text-gray-600">Fix the following problems and reload the page:</p>
+      <ul className="text-sm font-mono text-gray-800 bg-red-50 rounded-lg p-4 space-y-1 max-h-[60vh] overflow-y-auto">
+        {issues.map((issue, i) => (
+          <li key={i}>{issue}</li>
+        ))}
+      </ul>
+    </div>
+  </main>
+);
+
+export default App;
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef } from 'react';
+import { Box } from 'lucide-react';
+import { AppSection, PortfolioManifest } from '../types';
+import { SectionContent } from './Overlay';
+import { sectionToHash } from '../services/router';
+import { DisplayState, setDisplayMode } from '../services/displayMode';
+
+interface FallbackSiteProps {
+  manifest: PortfolioManifest;
+  display: DisplayState;
+  activeSection: AppSection;
+  onNavigate: (section: AppSection) => void;
+}
+
+const REASON_TEXT: Record<NonNullable<DisplayState['reason']>, string> = {
+  'no-webgl': "You're seeing the plain version of this site because your browser couldn't start the 3D view.",
+  error: "You're seeing the plain version of this site because the 3D view hit an error.",
+  'reduced-motion': "You're seeing the plain version of this site because your device asks for reduced motion.",
+  chosen: "You're seeing the plain version of this site.",
+};
+
+const sectionElementId = (section: AppSection) => `section-${section.toLowerCase()}`;
+
+/**
+ * Every section on one scrolling page, for visitors who can't or don't want to
+ * drive around the 3D world. Deep links scroll to their section.
+ */
+const FallbackSite: React.FC<FallbackSiteProps> = ({ manifest, display, activeSection, onNavigate }) => {
+  const mainRef = useRef<HTMLElement>(null);
+
+  // Bring the routed section into view and move focus there, so screen readers follow along
+  useEffect(() => {
+    if (activeSection === AppSection.HOME) return;
+    const target = document.getElementById(sectionElementId(activeSection));
+    target?.scrollIntoView({ block: 'start' });
+    target?.focus({ preventScroll: true });
+  }, [activeSection]);
+
+  return (
+    // The body never scrolls (the 3D view fills it), so this page scrolls itself
+    <div className="h-screen overflow-y-auto bg-slate-50 font-sans text-gray-800">
+      <a
+        href="#content"
+        onClick={(e) => {
+          e.preventDefault();
+          mainRef.current?.focus();
+        }}
+        className="sr-only focus:not-sr-only focus:absolute focus:top-4 focus:left-4 focus:z-50 focus:px-4 focus:py-2 focus:bg-white focus:rounded-lg focus:shadow-lg"
+      >
+        Skip to content
+      </a>
+
+      <header className="bg-white border-b">
+        <div className="max-w-4xl mx-auto px-6 py-8 space-y-6">
+          <div>
+            <h1 className="text-4xl font-black text-slate-800 tracking-tighter uppercase">{manifest.owner.name}</h1>
+            <p className="text-slate-500 font-medium text-lg">{manifest.owner.tagline}</p>
+          </div>
+          <nav aria-label="Sections">
+            <ul className="flex flex-wrap gap-2">
+              {manifest.sections.map((section) => (
+                <li key={section.id}>
+                  <a
+                    href={sectionToHash(section.id)}
+                    aria-current={section.id === activeSection ? 'location' : undefined}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      onNavigate(section.id);
+                    }}
+                    className="inline-block px-4 py-2 rounded-lg border border-gray-300 font-medium text-slate-700 hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-800"
+                  >
+                    {section.label}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        </div>
+      </header>
+
+      {display.reason && (
+        <div className="bg-slate-100 border-b">
+          <div className="max-w-4xl mx-auto px-6 py-3 flex flex-wrap items-center gap-3 text-sm text-slate-600">
+            <p className="flex-1">{REASON_TEXT[display.reason]}</p>
+            {display.canUse3D && (
+              <button
+                onClick={() => setDisplayMode('3d')}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 text-white font-medium hover:bg-slate-700 transition-colors"
+              >
+                <Box className="w-4 h-4" />
+                View the 3D world
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <main id="content" ref={mainRef} tabIndex={-1} className="max-w-4xl mx-auto px-6 py-10 space-y-10 focus:outline-none">
+        {manifest.sections.map((section) => (
+          <section
+            key={section.id}
+            id={sectionElementId(section.id)}
+            aria-label={section.label}
+            tabIndex={-1}
+            className="bg-white rounded-2xl shadow-sm border p-8 scroll-mt-6 focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-800"
+          >
+            <SectionContent manifest={manifest} section={section.id} />
+          </section>
+        ))}
+      </main>
+
+      <footer className="border-t bg-white">
+        <p className="max-w-4xl mx-auto px-6 py-6 text-sm text-slate-500">{manifest.owner.name}</p>
+      </footer>
+    </div>
+  );
+};
+
+export default FallbackSite;
@@ -0,0 +1,294 @@
+import React, { useRef, useState, useEffect } from 'react';
+import * as THREE from 'three';
+import { Map as MapIcon, Navigation, Car, X } from 'lucide-react';
+import { AppSection, SectionEntry } from '../types';
+import { ColliderWorld } from '../services/colliders';
+import { NavGrid, NavPoint } from '../services/navigation';
+import { isActionCode, isFormField, describeAction } from '../services/inputBindings';
+import { getAppMode } from '../services/appState';
+import { useAutopilot, requestAutopilot, cancelAutopilot } from '../services/autopilot';
+
+/**
+ * Live data the 3D scene shares with the map. The scene writes it every frame;
+ * the map reads it from its own animation loop, so neither re-renders.
+ */
+export interface MinimapFeed {
+  carPosition: THREE.Vector3;
+  carRotation: number;
+  trees: { x: number; z: number; radius: number }[];
+  colliders: ColliderWorld | null;
+}
+
+export const createMinimapFeed = (): MinimapFeed => ({
+  carPosition: new THREE.Vector3(),
+  carRotation: 0,
+  trees: [],
+  colliders: null,
+});
+
+// The drivable area is ±95; leave a little margin around it
+const PLAY_BOUND = 95;
+const MAP_EXTENT = 100;
+const NAV_CELL_SIZE = 2;
+// Car radius plus a margin, so routes don't scrape trees
+const ROUTE_CLEARANCE = 2.5;
+const ROUTE_REFRESH_MS = 500;
+// Close enough to the pad to count as arrived
+const ARRIVAL_DISTANCE = 7;
+
+const SMALL_SIZE = 176;
+
+interface MinimapProps {
+  feed: MinimapFeed;
+  sections: SectionEntry[];
+}
+
+const Minimap: React.FC<MinimapProps> = ({ feed, sections }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [routeTarget, setRouteTarget] = useState<AppSection | null>(null);
+  const route = useRef<NavPoint[] | null>(null);
+  const grid = useRef<{ nav: NavGrid; version: number } | null>(null);
+  const autopilot = useAutopilot();
+
+  // Show where the autopilot is heading
+  useEffect(() => {
+    if (autopilot.target !== null) setRouteTarget(autopilot.target);
+  }, [autopilot.target]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isFormField(e.target)) return;
+      if (isActionCode('map', e.code) && getAppMode() === 'driving') setExpanded(x => !x);
+      else if (e.code === 'Escape') setExpanded(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Draw loop, plus periodic re-planning of the highlighted route
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    const target = sections.find(s => s.id === routeTarget);
+    let lastPlan = 0;
+    let frame = 0;
+
+    const plan = () => {
+      const colliders = feed.colliders;
+      if (!target || !colliders) {
+        route.current = null;
+        return;
+      }
+      if (!grid.current || grid.current.version !== colliders.version) {
+        const nav = grid.current?.nav ?? new NavGrid(PLAY_BOUND, NAV_CELL_SIZE);
+        nav.rebuild(colliders.all(), ROUTE_CLEARANCE);
+        grid.current = { nav, version: colliders.version };
+      }
+      const goal = { x: target.position[0], z: target.position[2] };
+      const path = grid.current.nav.findPath({ x: feed.carPosition.x, z: feed.carPosition.z }, goal);
+      // Finish the line on the pad itself, which the grid treats as solid
+      route.current = path ? [...path, goal] : null;
+    };
+
+    const draw = (now: number) => {
+      frame = requestAnimationFrame(draw);
+
+      const car = feed.carPosition;
+      if (target && Math.hypot(car.x - target.position[0], car.z - target.position[2]) < ARRIVAL_DISTANCE) {
+        setRouteTarget(null);
+        return;
+      }
+      if (target && now - lastPlan > ROUTE_REFRESH_MS) {
+        lastPlan = now;
+        plan();
+      }
+
+      const cssSize = canvas.clientWidth;
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== Math.round(cssSize * dpr)) {
+        canvas.width = canvas.height = Math.round(cssSize * dpr);
+      }
+      const scale = cssSize / (MAP_EXTENT * 2);
+      const toMap = (v: number) => (v + MAP_EXTENT) * scale;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, cssSize, cssSize);
+
+      // Ground and the edge of the drivable area
+      ctx.fillStyle = 'rgba(93, 166, 66, 0.85)';
+      ctx.fillRect(0, 0, cssSize, cssSize);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(toMap(-PLAY_BOUND), toMap(-PLAY_BOUND), PLAY_BOUND * 2 * scale, PLAY_BOUND * 2 * scale);
+
+      // Trees; overlapping canopies read as clusters
+      ctx.fillStyle = 'rgba(20, 83, 45, 0.8)';
+      for (const tree of feed.trees) {
+        ctx.beginPath();
+        ctx.arc(toMap(tree.x), toMap(tree.z), Math.max(tree.radius * 2.5 * scale, 1.5), 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      // Highlighted route
+      const path = route.current;
+      if (target && path && path.length > 1) {
+        ctx.save();
+        ctx.strokeStyle = target.color;
+        ctx.lineWidth = expanded ? 4 : 2.5;
+        ctx.lineJoin = 'round';
+        ctx.setLineDash(expanded ? [10, 6] : [5, 3]);
+        ctx.lineDashOffset = -now / 40;
+        ctx.shadowColor = 'white';
+        ctx.shadowBlur = 6;
+        ctx.beginPath();
+        ctx.moveTo(toMap(car.x), toMap(car.z));
+        for (let i = 1; i < path.length; i++) ctx.lineTo(toMap(path[i].x), toMap(path[i].z));
+        ctx.stroke();
+        ctx.restore();
+      }
+
+      // Section markers with labels
+      const markerRadius = expanded ? 9 : 5;
+      ctx.font = `bold ${expanded ? 14 : 9}px system-ui, sans-serif`;
+      ctx.textAlign = 'center';
+      for (const section of sections) {
+        const x = toMap(section.position[0]);
+        const y = toMap(section.position[2]);
+        ctx.beginPath();
+        ctx.arc(x, y, markerRadius, 0, Math.PI * 2);
+        ctx.fillStyle = section.color;
+        ctx.fill();
+        ctx.lineWidth = section.id === routeTarget ? 3 : 1.5;
+        ctx.strokeStyle = 'white';
+        ctx.stroke();
+        ctx.fillStyle = '#0f172a';
+        ctx.fillText(section.label, x, y - markerRadius - 4);
+      }
+
+      // Car, as an arrow along its heading. Forward is -Z (map up) at rotation 0.
+      const arrow = expanded ? 12 : 7;
+      ctx.save();
+      ctx.translate(toMap(car.x), toMap(car.z));
+      ctx.rotate(-feed.carRotation);
+      ctx.beginPath();
+      ctx.moveTo(0, -arrow);
+      ctx.lineTo(arrow * 0.65, arrow * 0.7);
+      ctx.lineTo(0, arrow * 0.35);
+      ctx.lineTo(-arrow * 0.65, arrow * 0.7);
+      ctx.closePath();
+      ctx.fillStyle = '#ef4444';
+      ctx.fill();
+      ctx.lineWidth = 1.5;
+      ctx.strokeStyle = 'white';
+      ctx.stroke();
+      ctx.restore();
+    };
+
+    plan();
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [feed, sections, routeTarget, expanded]);
+
+  // Click a marker to route to it; click it again to clear
+  const onClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = rect.width / (MAP_EXTENT * 2);
+    const hitRadius = expanded ? 16 : 10;
+    const hit = sections.find(s => Math.hypot(
+      (s.position[0] + MAP_EXTENT) * scale - (e.clientX - rect.left),
+      (s.position[2] + MAP_EXTENT) * scale - (e.clientY - rect.top)
+    ) < hitRadius);
+    if (hit) setRouteTarget(current => (current === hit.id ? null : hit.id));
+  };
+
+  const target = sections.find(s => s.id === routeTarget);
+  const driving = autopilot.target !== null && autopilot.target === routeTarget;
+
+  const driveButton = target && (
+    <button
+      onClick={() => {
+        if (driving) {
+          cancelAutopilot();
+        } else {
+          requestAutopilot(target.id);
+          // Watch the drive rather than the map
+          setExpanded(false);
+        }
+      }}
+      className="flex items-center gap-1 px-2 py-1 rounded-md bg-slate-800 text-white shadow hover:bg-slate-700 transition-colors"
+    >
+      <Car className="w-3 h-3" />
+      {driving ? 'Stop autopilot' : 'Drive me there'}
+    </button>
+  );
+
+  const canvas = (
+    <canvas
+      ref={canvasRef}
+      onClick={onClick}
+      className="block w-full h-full cursor-pointer rounded-lg"
+    />
+  );
+
+  if (expanded) {
+    return (
+      <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/30 backdrop-blur-sm p-4" onClick={() => setExpanded(false)}>
+        <div className="bg-white/90 backdrop-blur-md p-4 rounded-2xl shadow-2xl space-y-3" onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+              {target ? `Route to ${target.label}` : 'Click a section to plot a route'}
+            </p>
+            <div className="flex-1" />
+            <div className="text-xs mr-2">{driveButton}</div>
+            <button onClick={() => setExpanded(false)} aria-label="Close map" className="p-1 rounded-full hover:bg-slate-200 transition-colors">
+              <X className="w-4 h-4 text-slate-500" />
+            </button>
+          </div>
+          <div style={{ width: 'min(80vw, 75vh)', height: 'min(80vw, 75vh)' }}>{canvas}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute top-36 left-8 z-10 select-none space-y-2">
+      <div
+        className="bg-white/80 backdrop-blur-md p-1.5 rounded-xl border border-white/50 shadow-lg"
+        style={{ width: SMALL_SIZE, height: SMALL_SIZE }}
+      >
+        {canvas}
+      </div>
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={() => setExpanded(true)}
+          className="flex items-center gap-1 px-2 py-1 rounded-md bg-white/80 backdrop-blur-md border border-white/50 shadow text-slate-600 hover:bg-white transition-colors"
+        >
+          <MapIcon className="w-3 h-3" />
+          Map ({describeAction('map')})
+        </button>
+        {target && (
+          <button
+            onClick={() => setRouteTarget(null)}
+            className="flex items-center gap-1 px-2 py-1 rounded-md bg-white/80 backdrop-blur-md border border-white/50 shadow text-slate-600 hover:bg-white transition-colors"
+          >
+            <Navigation className="w-3 h-3" style={{ color: target.color }} />
+            {target.label}
+            <X className="w-3 h-3" />
+          </button>
+        )}
+        {driveButton}
+      </div>
+      {driving && (
+        <p className="text-xs text-slate-600 bg-white/80 backdrop-blur-md rounded-md px-2 py-1 shadow">
+          Autopilot on. Steer, brake or accelerate to take over.
+        </p>
+      )}
+      {autopilot.error && (
+        <p className="text-xs text-red-600 bg-white/80 backdrop-blur-md rounded-md px-2 py-1 shadow">{autopilot.error}</p>
+      )}
+    </div>
+  );
+};
+
+export default Minimap;
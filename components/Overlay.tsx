@@ -1,82 +1,146 @@
-import React, { useState, useRef } from 'react';
-import { AppSection, VideoGenerationState, ImageEditingState } from '../types';
-import { generateVideo, editImage, checkApiKey, promptApiKeySelection } from '../services/geminiService';
-import { X, Upload, Play, Image as ImageIcon, Loader2, Video, Wand2, User, Code2, Briefcase } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { AppSection, VideoGenerationStage, ImageEditingState, PortfolioManifest } from '../types';
+import { editImage, checkApiKey, promptApiKeySelection, VEO_MODELS, DEFAULT_VIDEO_OPTIONS, normalizeVideoOptions, VideoGenerationOptions, VideoAspectRatio } from '../services/geminiService';
+import { useVideoJob, startVideoJob, resumeVideoJob, cancelVideoJob } from '../services/videoJob';
+import { X, Upload, Play, Image as ImageIcon, Loader2, Video, Wand2, User, Code2, Briefcase, Square } from 'lucide-react';
 
 interface OverlayProps {
+  manifest: PortfolioManifest;
   activeSection: AppSection;
   onClose: () => void;
+  // Where focus goes once the dialog closes (the 3D world)
+  returnFocusRef?: React.RefObject<HTMLElement | null>;
 }
 
-const Overlay: React.FC<OverlayProps> = ({ activeSection, onClose }) => {
-  if (activeSection === AppSection.HOME) return null;
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), textarea:not([disabled]), select:not([disabled]), video[controls], [tabindex]:not([tabindex="-1"])';
+
+const Overlay: React.FC<OverlayProps> = ({ manifest, activeSection, onClose, returnFocusRef }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const isOpen = activeSection !== AppSection.HOME;
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Move focus into the dialog while it's open and hand it back to the world afterwards
+  useEffect(() => {
+    if (!isOpen) return;
+    const previous = document.activeElement as HTMLElement | null;
+    dialogRef.current?.focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') {
+        e.preventDefault();
+        onCloseRef.current();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      (returnFocusRef?.current ?? previous)?.focus();
+    };
+  }, [isOpen, returnFocusRef]);
+
+  // Keep Tab cycling inside the dialog
+  const trapFocus = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (focusable.length === 0) {
+      e.preventDefault();
+      return;
+    }
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || active === dialogRef.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const label = manifest.sections.find(s => s.id === activeSection)?.label ?? 'Section';
 
   return (
     <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
-      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto flex flex-col relative animate-in fade-in zoom-in duration-300">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={label}
+        tabIndex={-1}
+        onKeyDown={trapFocus}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto flex flex-col relative animate-in fade-in zoom-in duration-300 focus:outline-none"
+      >
         <button 
           onClick={onClose}
+          aria-label={`Close ${label}`}
           className="absolute top-4 right-4 p-2 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors z-10"
         >
           <X className="w-5 h-5 text-gray-600" />
         </button>
 
         <div className="p-8">
-          {activeSection === AppSection.VEO_STUDIO && <VeoStudio />}
-          {activeSection === AppSection.IMAGE_EDITOR && <ImageEditor />}
-          {activeSection === AppSection.CONTACT && <ContactSection />}
-          {activeSection === AppSection.ABOUT && <AboutSection />}
-          {activeSection === AppSection.SKILLS && <SkillsSection />}
+          <SectionContent manifest={manifest} section={activeSection} />
         </div>
       </div>
     </div>
   );
 };
 
-const AboutSection: React.FC = () => (
+/**
+ * The body of one section, shared by the overlay and the plain-page fallback.
+ */
+export const SectionContent: React.FC<{ manifest: PortfolioManifest; section: AppSection }> = ({ manifest, section }) => (
+  <>
+    {section === AppSection.VEO_STUDIO && <VeoStudio />}
+    {section === AppSection.IMAGE_EDITOR && <ImageEditor />}
+    {section === AppSection.CONTACT && <ContactSection content={manifest.contact} />}
+    {section === AppSection.ABOUT && <AboutSection content={manifest.about} />}
+    {section === AppSection.SKILLS && <SkillsSection content={manifest.skills} />}
+  </>
+);
+
+// Renders **bold** spans from manifest prose
+const RichText: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {text.split('**').map((chunk, i) => (i % 2 === 1 ? <strong key={i}>{chunk}</strong> : chunk))}
+  </>
+);
+
+const AboutSection: React.FC<{ content: PortfolioManifest['about'] }> = ({ content }) => (
   <div className="space-y-6">
     <div className="flex items-center gap-3 border-b pb-4">
       <div className="p-3 bg-indigo-100 rounded-lg">
         <User className="w-6 h-6 text-indigo-600" />
       </div>
       <div>
-        <h2 className="text-2xl font-bold text-gray-800">About Me</h2>
-        <p className="text-gray-500">The developer behind the wheel</p>
+        <h2 className="text-2xl font-bold text-gray-800">{content.title}</h2>
+        <p className="text-gray-500">{content.subtitle}</p>
       </div>
     </div>
     <div className="grid md:grid-cols-2 gap-8 items-center">
       <div className="space-y-4 text-gray-600 leading-relaxed">
-        <p>
-          Hello! I'm <strong>Uday</strong>, a Creative Developer who loves bridging the gap between 
-          technical engineering and interactive design.
-        </p>
-        <p>
-          I specialize in building immersive 3D web experiences using technologies like 
-          React Three Fiber and integrating cutting-edge Generative AI models to create 
-          magic on the web.
-        </p>
-        <p>
-          My goal is to make the web more fun, interactive, and intelligent. When I'm not coding, 
-          you can find me exploring new game engines or experimenting with neural networks.
-        </p>
+        {content.paragraphs.map((paragraph, i) => (
+          <p key={i}>
+            <RichText text={paragraph} />
+          </p>
+        ))}
       </div>
-      <div className="bg-gray-100 rounded-xl h-64 flex items-center justify-center">
-        <span className="text-gray-400 font-medium">Profile Photo Placeholder</span>
+      <div className="bg-gray-100 rounded-xl h-64 flex items-center justify-center overflow-hidden">
+        {content.photoUrl ? (
+          <img src={content.photoUrl} alt={content.title} className="w-full h-full object-cover" />
+        ) : (
+          <span className="text-gray-400 font-medium">Profile Photo Placeholder</span>
+        )}
       </div>
     </div>
   </div>
 );
 
-const SkillsSection: React.FC = () => {
-  const skills = [
-    { name: "React & Next.js", level: 95 },
-    { name: "Three.js / R3F", level: 90 },
-    { name: "TypeScript", level: 90 },
-    { name: "Generative AI API", level: 85 },
-    { name: "Node.js", level: 80 },
-    { name: "Tailwind CSS", level: 95 },
-  ];
-
+const SkillsSection: React.FC<{ content: PortfolioManifest['skills'] }> = ({ content }) => {
   return (
     <div className="space-y-6">
        <div className="flex items-center gap-3 border-b pb-4">
@@ -84,13 +148,13 @@ const SkillsSection: React.FC = () => {
           <Code2 className="w-6 h-6 text-emerald-600" />
         </div>
         <div>
-          <h2 className="text-2xl font-bold text-gray-800">Technical Skills</h2>
-          <p className="text-gray-500">My stack and expertise</p>
+          <h2 className="text-2xl font-bold text-gray-800">{content.title}</h2>
+          <p className="text-gray-500">{content.subtitle}</p>
         </div>
       </div>
       
       <div className="grid md:grid-cols-2 gap-6">
-        {skills.map((skill) => (
+        {content.items.map((skill) => (
           <div key={skill.name} className="bg-gray-50 p-4 rounded-lg">
             <div className="flex justify-between mb-2">
               <span className="font-semibold text-gray-700">{skill.name}</span>
@@ -109,18 +173,43 @@ const SkillsSection: React.FC = () => {
   );
 };
 
+// Steps of a Veo job in order, for the progress row
+const VIDEO_STEPS: { stage: VideoGenerationStage; label: string }[] = [
+  { stage: 'submitting', label: 'Submit' },
+  { stage: 'generating', label: 'Generate' },
+  { stage: 'downloading', label: 'Download' },
+];
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ASPECT_RATIOS: { ratio: VideoAspectRatio; label: string }[] = [
+  { ratio: '16:9', label: 'Landscape 16:9' },
+  { ratio: '9:16', label: 'Portrait 9:16' },
+];
+
 const VeoStudio: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [prompt, setPrompt] = useState('');
-  const [state, setState] = useState<VideoGenerationState>({
-    isGenerating: false,
-    videoUrl: null,
-    error: null,
-    progress: ''
-  });
+  const [options, setOptions] = useState<VideoGenerationOptions>(DEFAULT_VIDEO_OPTIONS);
+  const state = useVideoJob();
+  const model = VEO_MODELS.find(m => m.id === options.model) ?? VEO_MODELS[0];
+  // Without an image Veo works from the prompt alone, so it needs one
+  const canGenerate = !!file || prompt.trim().length > 0;
+  const currentStep = VIDEO_STEPS.findIndex(s => s.stage === state.stage);
+
+  // Pick up a job that was still rendering when the page was reloaded
+  useEffect(() => {
+    resumeVideoJob();
+  }, []);
+
+  const updateOptions = (next: Partial<VideoGenerationOptions>) =>
+    setOptions(o => normalizeVideoOptions({ ...o, ...next }));
 
   const handleGenerate = async () => {
-    if (!file) return;
+    if (!canGenerate) return;
 
     // API Key Check
     const hasKey = await checkApiKey();
@@ -130,15 +219,7 @@ const VeoStudio: React.FC = () => {
       return; 
     }
 
-    setState({ ...state, isGenerating: true, error: null, progress: 'Initializing Veo...' });
-
-    try {
-      setState(s => ({ ...s, progress: 'Generating video (this may take a minute)...' }));
-      const videoUrl = await generateVideo(file, prompt);
-      setState({ isGenerating: false, videoUrl, error: null, progress: '' });
-    } catch (e: any) {
-      setState({ isGenerating: false, videoUrl: null, error: e.message || 'Generation failed', progress: '' });
-    }
+    startVideoJob(file, prompt, options);
   };
 
   return (
@@ -149,16 +230,20 @@ const VeoStudio: React.FC = () => {
         </div>
         <div>
           <h2 className="text-2xl font-bold text-gray-800">Veo Motion Studio (Project)</h2>
-          <p className="text-gray-500">Bring your images to life with Veo 3.1</p>
+          <p className="text-gray-500">Bring your images to life, or start from words alone, with Veo</p>
         </div>
       </div>
 
       <div className="grid md:grid-cols-2 gap-8">
         <div className="space-y-4">
           <label className="block">
-            <span className="text-sm font-medium text-gray-700">1. Upload an Image</span>
+            <span className="text-sm font-medium text-gray-700">1. Upload an Image (optional)</span>
             <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-xl hover:bg-gray-50 transition-colors cursor-pointer relative">
-              <input type="file" className="absolute inset-0 opacity-0 cursor-pointer" accept="image/*" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+              <input type="file" className="absolute inset-0 opacity-0 cursor-pointer" accept="image/*" onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                // Let the same file be picked again after removing it
+                e.target.value = '';
+              }} />
               <div className="space-y-1 text-center">
                 {file ? (
                   <div className="text-sm text-green-600 font-medium flex items-center justify-center gap-2">
@@ -174,9 +259,14 @@ const VeoStudio: React.FC = () => {
               </div>
             </div>
           </label>
+          {file && (
+            <button onClick={() => setFile(null)} className="text-sm text-gray-500 hover:text-gray-700 underline">
+              Remove image and generate from text only
+            </button>
+          )}
 
           <label className="block">
-            <span className="text-sm font-medium text-gray-700">2. Describe the motion</span>
+            <span className="text-sm font-medium text-gray-700">{file ? '2. Describe the motion' : '2. Describe the video'}</span>
             <textarea 
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
@@ -185,22 +275,115 @@ const VeoStudio: React.FC = () => {
             />
           </label>
 
-          <button
-            onClick={handleGenerate}
-            disabled={!file || state.isGenerating}
-            className="w-full flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold py-3 px-6 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {state.isGenerating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
-            {state.isGenerating ? 'Generating...' : 'Generate Video'}
-          </button>
-          
-          {state.progress && <p className="text-sm text-purple-600 text-center animate-pulse">{state.progress}</p>}
+          <fieldset className="space-y-3">
+            <legend className="text-sm font-medium text-gray-700 mb-1">3. Options</legend>
+            <div className="flex gap-2" role="radiogroup" aria-label="Aspect ratio">
+              {ASPECT_RATIOS.map(({ ratio, label }) => (
+                <button
+                  key={ratio}
+                  role="radio"
+                  aria-checked={options.aspectRatio === ratio}
+                  onClick={() => updateOptions({ aspectRatio: ratio })}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium border transition-colors ${options.aspectRatio === ratio ? 'bg-purple-600 border-purple-600 text-white' : 'border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <label className="block">
+                <span className="text-gray-500">Model</span>
+                <select
+                  value={options.model}
+                  onChange={(e) => updateOptions({ model: e.target.value })}
+                  className="mt-1 block w-full rounded-lg border border-gray-300 bg-gray-50 p-2"
+                >
+                  {VEO_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-500">Resolution</span>
+                <select
+                  value={options.resolution}
+                  onChange={(e) => updateOptions({ resolution: e.target.value as VideoGenerationOptions['resolution'] })}
+                  disabled={model.resolutions.length < 2}
+                  className="mt-1 block w-full rounded-lg border border-gray-300 bg-gray-50 p-2 disabled:opacity-50"
+                >
+                  {model.resolutions.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-500">Videos</span>
+                <select
+                  value={options.numberOfVideos}
+                  onChange={(e) => updateOptions({ numberOfVideos: Number(e.target.value) })}
+                  disabled={model.maxVideos < 2}
+                  className="mt-1 block w-full rounded-lg border border-gray-300 bg-gray-50 p-2 disabled:opacity-50"
+                >
+                  {Array.from({ length: model.maxVideos }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+            </div>
+            <label className="block text-sm">
+              <span className="text-gray-500">Avoid (negative prompt)</span>
+              <input
+                type="text"
+                value={options.negativePrompt}
+                onChange={(e) => updateOptions({ negativePrompt: e.target.value })}
+                placeholder="E.g., blurry, text overlays, people"
+                className="mt-1 block w-full rounded-lg border border-gray-300 bg-gray-50 p-2"
+              />
+            </label>
+          </fieldset>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleGenerate}
+              disabled={!canGenerate || state.isGenerating}
+              className="flex-1 flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold py-3 px-6 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {state.isGenerating ? <Loader2 className="w-5 h-5 animate-spin" /> : <Play className="w-5 h-5" />}
+              {state.isGenerating ? `Generating... ${formatElapsed(state.elapsedMs)}` : options.numberOfVideos > 1 ? 'Generate Videos' : 'Generate Video'}
+            </button>
+            {state.isGenerating && (
+              <button
+                onClick={cancelVideoJob}
+                className="flex items-center gap-2 px-4 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+              >
+                <Square className="w-4 h-4" />
+                Cancel
+              </button>
+            )}
+          </div>
+
+          {state.isGenerating && (
+            <ol className="flex justify-center gap-2 text-xs font-medium" aria-label="Progress">
+              {VIDEO_STEPS.map((step, i) => (
+                <li
+                  key={step.stage}
+                  aria-current={i === currentStep ? 'step' : undefined}
+                  className={`px-3 py-1 rounded-full ${i < currentStep ? 'bg-purple-100 text-purple-700' : i === currentStep ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-400'}`}
+                >
+                  {step.label}
+                </li>
+              ))}
+            </ol>
+          )}
+          {state.progress && <p className="text-sm text-purple-600 text-center animate-pulse" role="status">{state.progress}</p>}
+          {state.stage === 'cancelled' && <p className="text-sm text-gray-500 text-center">Stopped waiting for the video.</p>}
+          {state.stage === 'done' && <p className="text-sm text-gray-500 text-center">Finished in {formatElapsed(state.elapsedMs)}</p>}
           {state.error && <p className="text-sm text-red-500 text-center bg-red-50 p-2 rounded">{state.error}</p>}
         </div>
 
         <div className="bg-gray-900 rounded-xl flex items-center justify-center min-h-[300px] overflow-hidden">
-          {state.videoUrl ? (
-            <video src={state.videoUrl} controls className="w-full h-full object-contain" autoPlay loop />
+          {state.videoUrls.length > 1 ? (
+            <div className="grid grid-cols-2 gap-2 p-2 w-full">
+              {state.videoUrls.map((url, i) => (
+                <video key={url} src={url} controls className="w-full h-full object-contain" autoPlay loop muted aria-label={`Generated video ${i + 1}`} />
+              ))}
+            </div>
+          ) : state.videoUrls.length === 1 ? (
+            <video src={state.videoUrls[0]} controls className="w-full h-full object-contain" autoPlay loop />
           ) : (
             <div className="text-gray-500 text-center p-6">
               <Video className="w-12 h-12 mx-auto mb-2 opacity-20" />
@@ -308,23 +491,29 @@ const ImageEditor: React.FC = () => {
   );
 };
 
-const ContactSection: React.FC = () => (
+const ContactSection: React.FC<{ content: PortfolioManifest['contact'] }> = ({ content }) => (
   <div className="text-center space-y-6">
     <div className="p-3 bg-green-100 rounded-full w-16 h-16 flex items-center justify-center mx-auto">
       <Briefcase className="w-8 h-8 text-green-600" />
     </div>
-    <h2 className="text-3xl font-bold text-gray-800">Get in Touch</h2>
+    <h2 className="text-3xl font-bold text-gray-800">{content.title}</h2>
     <p className="text-gray-600 max-w-lg mx-auto">
-      I'm Uday, a creative developer passionate about 3D web experiences and Generative AI. 
-      Let's build something amazing together.
+      {content.body}
     </p>
     <div className="flex justify-center gap-4">
-      <a href="#" className="px-6 py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors">
-        Email Me
-      </a>
-      <a href="#" className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors">
-        GitHub
-      </a>
+      {content.links.map((link) => (
+        <a
+          key={link.href}
+          href={link.href}
+          target={link.href.startsWith('http') ? '_blank' : undefined}
+          rel={link.href.startsWith('http') ? 'noopener noreferrer' : undefined}
+          className={link.primary
+            ? 'px-6 py-3 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors'
+            : 'px-6 py-3 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors'}
+        >
+          {link.label}
+        </a>
+      ))}
     </div>
   </div>
 );
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { Play, FileText } from 'lucide-react';
+import { useAppMode, getAppMode, dispatch } from '../services/appState';
+import { isActionCode, isFormField, describeAction } from '../services/inputBindings';
+import { setDisplayMode } from '../services/displayMode';
+
+/**
+ * Pause key handling and the menu shown while the world is paused.
+ */
+const PauseMenu: React.FC = () => {
+  const mode = useAppMode();
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isFormField(e.target)) return;
+      const current = getAppMode();
+      if (current === 'driving' && isActionCode('pause', e.code)) {
+        dispatch('pause');
+      } else if (current === 'paused' && (isActionCode('pause', e.code) || e.code === 'Escape')) {
+        e.preventDefault();
+        dispatch('resume');
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Focus the menu while it's open and put focus back where it was after
+  useEffect(() => {
+    if (mode !== 'paused') return;
+    const previous = document.activeElement as HTMLElement | null;
+    dialogRef.current?.querySelector<HTMLElement>('button')?.focus();
+    return () => previous?.focus();
+  }, [mode]);
+
+  // Only two buttons, so Tab just wraps between them
+  const trapFocus = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+    const buttons = Array.from(dialogRef.current.querySelectorAll<HTMLElement>('button'));
+    const index = buttons.indexOf(document.activeElement as HTMLElement);
+    e.preventDefault();
+    buttons[(index + (e.shiftKey ? buttons.length - 1 : 1)) % buttons.length]?.focus();
+  };
+
+  if (mode !== 'paused') return null;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/30 backdrop-blur-sm p-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pause-title"
+        onKeyDown={trapFocus}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-xs p-6 space-y-4 text-center animate-in fade-in zoom-in duration-300"
+      >
+        <h2 id="pause-title" className="text-2xl font-bold text-gray-800">Paused</h2>
+        <button
+          onClick={() => dispatch('resume')}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-white font-medium hover:bg-slate-700 transition-colors"
+        >
+          <Play className="w-4 h-4" />
+          Resume ({describeAction('pause')})
+        </button>
+        <button
+          onClick={() => setDisplayMode('simple')}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+        >
+          <FileText className="w-4 h-4" />
+          Skip the 3D
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PauseMenu;
@@ -0,0 +1,400 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Settings, X, RotateCcw, Download, Upload, Trash2, Volume2, VolumeX, Pause } from 'lucide-react';
+import {
+  INPUT_ACTIONS,
+  MAX_KEYS_PER_ACTION,
+  InputAction,
+  useBindings,
+  setBinding,
+  clearBinding,
+  resetBindings,
+  describeKey,
+} from '../services/inputBindings';
+import {
+  TimeOfDayMode,
+  LIGHTING_PRESETS,
+  useTimeOfDaySettings,
+  setTimeOfDayMode,
+  setManualHour,
+  getCurrentHour,
+  formatHour,
+} from '../services/timeOfDay';
+import { WEATHER_MODES, useWeatherMode, useCurrentWeather, setWeatherMode } from '../services/weather';
+import { AUDIO_BUSES, useAudioSettings, setBusVolume, setMuted } from '../services/audio';
+import { QUALITY_MODES, QUALITY_LEVELS, AUTO_TARGET_FPS, useGraphicsQuality, setQualityMode } from '../services/graphics';
+import { dispatch } from '../services/appState';
+import { CAMERA_MODES, useCameraState, setCameraMode } from '../services/cameraMode';
+import { useGhostReplay, downloadReplay, importReplay, clearGhostReplay, ReplayFormatError } from '../services/replay';
+
+// --- CONTROLS ---
+
+const ControlsSettings: React.FC = () => {
+  const bindings = useBindings();
+  const [listening, setListening] = useState<{ action: InputAction; slot: number } | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    // Capture phase on window runs before the car controller, and stopping
+    // propagation keeps the pressed key from also driving the car.
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') {
+        setListening(null);
+        return;
+      }
+      if (e.code === 'Backspace' || e.code === 'Delete') {
+        clearBinding(listening.action, listening.slot);
+      } else {
+        setBinding(listening.action, listening.slot, e.code);
+      }
+      setListening(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [listening]);
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Controls</h3>
+        <button
+          onClick={resetBindings}
+          className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset to defaults
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">
+        Click a key to rebind it. Backspace clears, Escape cancels.
+      </p>
+      <div className="space-y-1">
+        {INPUT_ACTIONS.map(({ action, label }) => (
+          <div key={action} className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-slate-700">{label}</span>
+            <div className="flex gap-1">
+              {Array.from({ length: MAX_KEYS_PER_ACTION }, (_, slot) => {
+                const code = bindings[action][slot];
+                const isListening = listening?.action === action && listening.slot === slot;
+                return (
+                  <button
+                    key={slot}
+                    onClick={() => setListening({ action, slot })}
+                    className={`min-w-[5.5rem] px-2 py-1 rounded-md font-mono text-xs border transition-colors ${
+                      isListening
+                        ? 'bg-indigo-600 text-white border-indigo-600 animate-pulse'
+                        : 'bg-slate-50 text-slate-700 border-slate-200 hover:bg-slate-100'
+                    }`}
+                  >
+                    {isListening ? 'Press a key…' : code ? describeKey(code) : '—'}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+// --- TIME OF DAY ---
+
+const TIME_MODES: { mode: TimeOfDayMode; label: string }[] = [
+  { mode: 'cycle', label: 'Cycle' },
+  { mode: 'local', label: 'My clock' },
+  { mode: 'manual', label: 'Manual' },
+];
+
+const TimeOfDaySettings: React.FC = () => {
+  const { mode, hour } = useTimeOfDaySettings();
+  // The live hour isn't React state, so poll it while the panel is open
+  const [now, setNow] = useState(getCurrentHour);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(getCurrentHour()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const shown = mode === 'manual' ? hour : now;
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Time of Day</h3>
+        <span className="font-mono text-xs text-slate-500">{formatHour(shown)}</span>
+      </div>
+      <div className="flex rounded-md border border-slate-200 overflow-hidden text-xs">
+        {TIME_MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => setTimeOfDayMode(option.mode)}
+            aria-pressed={mode === option.mode}
+            className={`flex-1 px-2 py-1 transition-colors ${
+              mode === option.mode ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={23.75}
+        step={0.25}
+        value={shown}
+        onChange={(e) => setManualHour(Number(e.target.value))}
+        aria-label="Hour of day"
+        className="w-full accent-indigo-600"
+      />
+      <div className="flex gap-1">
+        {LIGHTING_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => setManualHour(preset.hour)}
+            className="flex-1 px-2 py-1 rounded-md text-xs border border-slate-200 bg-slate-50 text-slate-700 hover:bg-slate-100 transition-colors"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+// --- WEATHER ---
+
+const WeatherSettings: React.FC = () => {
+  const mode = useWeatherMode();
+  const current = useCurrentWeather();
+  const currentLabel = WEATHER_MODES.find(m => m.mode === current)?.label;
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Weather</h3>
+        {mode === 'auto' && <span className="text-xs text-slate-500">Now: {currentLabel}</span>}
+      </div>
+      <div className="flex rounded-md border border-slate-200 overflow-hidden text-xs">
+        {WEATHER_MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => setWeatherMode(option.mode)}
+            aria-pressed={mode === option.mode}
+            className={`flex-1 px-1 py-1 transition-colors ${
+              mode === option.mode ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">Rain makes the road slippery, so brake early.</p>
+    </section>
+  );
+};
+
+// --- GRAPHICS ---
+
+const GraphicsSettings: React.FC = () => {
+  const { mode, level } = useGraphicsQuality();
+  const levelLabel = QUALITY_LEVELS.find(l => l.level === level)?.label;
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Graphics</h3>
+        {mode === 'auto' && <span className="text-xs text-slate-500">Now: {levelLabel}</span>}
+      </div>
+      <div className="flex rounded-md border border-slate-200 overflow-hidden text-xs">
+        {QUALITY_MODES.map(option => (
+          <button
+            key={option.mode}
+            onClick={() => setQualityMode(option.mode)}
+            aria-pressed={mode === option.mode}
+            className={`flex-1 px-1 py-1 transition-colors ${
+              mode === option.mode ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">Auto lowers quality when the frame rate stays under {AUTO_TARGET_FPS} fps.</p>
+    </section>
+  );
+};
+
+// --- CAMERA ---
+
+const CameraSettings: React.FC = () => {
+  const { mode, parked } = useCameraState();
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Camera</h3>
+      <div className="flex rounded-md border border-slate-200 overflow-hidden text-xs">
+        {CAMERA_MODES.map(option => {
+          const unavailable = option.mode === 'orbit' && !parked;
+          return (
+            <button
+              key={option.mode}
+              onClick={() => setCameraMode(option.mode)}
+              disabled={unavailable}
+              aria-pressed={mode === option.mode}
+              className={`flex-1 px-1 py-1 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                mode === option.mode ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-700 hover:bg-slate-100'
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500">Stop the car to orbit; drag to look around. Scroll zooms in every view.</p>
+    </section>
+  );
+};
+
+// --- AUDIO ---
+
+const MuteButton: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { muted } = useAudioSettings();
+  return (
+    <button
+      onClick={() => setMuted(!muted)}
+      aria-label={muted ? 'Unmute sound' : 'Mute sound'}
+      aria-pressed={muted}
+      className={className}
+    >
+      {muted ? <VolumeX className="w-5 h-5 text-slate-600" /> : <Volume2 className="w-5 h-5 text-slate-600" />}
+    </button>
+  );
+};
+
+const SoundSettings: React.FC = () => {
+  const audio = useAudioSettings();
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Sound</h3>
+        <MuteButton className="p-1 rounded-md hover:bg-slate-100 transition-colors" />
+      </div>
+      {AUDIO_BUSES.map(({ bus, label }) => (
+        <label key={bus} className="flex items-center gap-3 text-sm text-slate-700">
+          <span className="w-14">{label}</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={audio[bus]}
+            onChange={(e) => setBusVolume(bus, Number(e.target.value))}
+            disabled={audio.muted}
+            className="flex-1 accent-indigo-600 disabled:opacity-40"
+          />
+          <span className="w-8 text-right font-mono text-xs text-slate-500">{Math.round(audio[bus] * 100)}</span>
+        </label>
+      ))}
+    </section>
+  );
+};
+
+// --- GHOST REPLAY ---
+
+const GhostSettings: React.FC = () => {
+  const ghost = useGhostReplay();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear so picking the same file again still fires change
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importReplay(file);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof ReplayFormatError ? err.message : 'Could not read that file');
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1 px-2 py-1 rounded-md text-xs border border-slate-200 bg-slate-50 text-slate-700 hover:bg-slate-100 transition-colors disabled:opacity-40 disabled:pointer-events-none';
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Ghost Replay</h3>
+      <p className="text-xs text-slate-500">
+        {ghost
+          ? `Racing ${ghost.name || 'your best run'}: ${ghost.score} crates, last hit at ${ghost.time.toFixed(1)}s.`
+          : 'Finish a crate smash run to race your ghost, or import a friend\'s replay.'}
+      </p>
+      <div className="flex gap-2">
+        <button onClick={() => ghost && downloadReplay(ghost)} disabled={!ghost} className={buttonClass}>
+          <Download className="w-3 h-3" />
+          Export
+        </button>
+        <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+          <Upload className="w-3 h-3" />
+          Import
+        </button>
+        <button onClick={clearGhostReplay} disabled={!ghost} className={buttonClass}>
+          <Trash2 className="w-3 h-3" />
+          Clear
+        </button>
+        <input ref={fileInput} type="file" accept="application/json,.json" onChange={onFile} className="hidden" />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </section>
+  );
+};
+
+// --- PANEL ---
+
+/**
+ * Gear button plus slide-out settings panel shown over the 3D world.
+ */
+const SettingsPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="absolute top-8 right-8 z-20 flex flex-col items-end gap-2 select-none">
+      <div className="flex gap-2">
+        <button
+          onClick={() => dispatch('pause')}
+          aria-label="Pause"
+          className="p-3 bg-white/80 backdrop-blur-md rounded-full border border-white/50 shadow-lg hover:bg-white transition-colors"
+        >
+          <Pause className="w-5 h-5 text-slate-600" />
+        </button>
+        <MuteButton className="p-3 bg-white/80 backdrop-blur-md rounded-full border border-white/50 shadow-lg hover:bg-white transition-colors" />
+        <button
+          onClick={() => setOpen(o => !o)}
+          aria-label={open ? 'Close settings' : 'Open settings'}
+          aria-expanded={open}
+          className="p-3 bg-white/80 backdrop-blur-md rounded-full border border-white/50 shadow-lg hover:bg-white transition-colors"
+        >
+          {open ? <X className="w-5 h-5 text-slate-600" /> : <Settings className="w-5 h-5 text-slate-600" />}
+        </button>
+      </div>
+
+      {open && (
+        <div className="w-80 max-h-[75vh] overflow-y-auto bg-white/90 backdrop-blur-md p-4 rounded-xl border border-white/50 shadow-lg space-y-6">
+          <ControlsSettings />
+          <SoundSettings />
+          <TimeOfDaySettings />
+          <WeatherSettings />
+          <GraphicsSettings />
+          <CameraSettings />
+          <GhostSettings />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
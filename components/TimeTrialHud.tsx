@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { Timer, Trophy, Box, RotateCcw, X } from 'lucide-react';
+import { useTimeTrial, startCountdown, resetTimeTrial, RUN_SECONDS } from '../services/timeTrial';
+import { LeaderboardEntry, loadLeaderboard, qualifies, submitScore } from '../services/leaderboard';
+import { nameLatestRun } from '../services/replay';
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const tenths = Math.floor((seconds - whole) * 10);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}.${tenths}`;
+};
+
+const Leaderboard: React.FC<{ entries: LeaderboardEntry[]; highlight: number }> = ({ entries, highlight }) => (
+  <ol className="space-y-1 text-sm">
+    {entries.length === 0 && <li className="text-slate-400 text-center py-2">No runs yet</li>}
+    {entries.map((entry, i) => (
+      <li
+        key={`${entry.date}-${i}`}
+        className={`flex items-center gap-3 px-3 py-1.5 rounded-md ${
+          i === highlight ? 'bg-amber-100 text-amber-900 font-semibold' : 'text-slate-600'
+        }`}
+      >
+        <span className="w-5 text-right font-mono text-slate-400">{i + 1}</span>
+        <span className="flex-1 truncate">{entry.name}</span>
+        <span className="font-mono">{entry.score}</span>
+        <span className="w-16 text-right font-mono text-slate-400">{formatTime(entry.time)}</span>
+      </li>
+    ))}
+  </ol>
+);
+
+const Results: React.FC<{ score: number; total: number; time: number }> = ({ score, total, time }) => {
+  const [board, setBoard] = useState(loadLeaderboard);
+  const [rank, setRank] = useState(-1);
+  const [name, setName] = useState('');
+  const canSubmit = rank < 0 && qualifies(score, time);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = submitScore(name, score, time);
+    nameLatestRun(name);
+    setBoard(result.board);
+    setRank(result.rank);
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/30 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 space-y-5 animate-in fade-in zoom-in duration-300">
+        <div className="text-center space-y-1">
+          <Trophy className="w-10 h-10 text-amber-500 mx-auto" />
+          <h2 className="text-2xl font-bold text-gray-800">
+            {score >= total ? 'All crates smashed!' : "Time's up!"}
+          </h2>
+          <p className="text-gray-500">
+            {score} / {total} crates{score > 0 && ` • last hit at ${formatTime(time)}`}
+          </p>
+        </div>
+
+        {canSubmit && (
+          // Keys typed here shouldn't reach the world's window listeners (zoom, interact)
+          <form onSubmit={submit} onKeyDown={(e) => e.stopPropagation()} className="flex gap-2">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={16}
+              placeholder="Your name"
+              className="flex-1 px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:ring-2 focus:ring-amber-400"
+            />
+            <button type="submit" className="px-4 py-2 rounded-lg bg-amber-500 text-white font-semibold hover:bg-amber-600 transition-colors">
+              Save
+            </button>
+          </form>
+        )}
+
+        <div>
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Top 10</h3>
+          <Leaderboard entries={board} highlight={rank} />
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => {
+              resetTimeTrial();
+              startCountdown(total);
+            }}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-slate-800 text-white font-semibold hover:bg-slate-700 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Race again
+          </button>
+          <button
+            onClick={resetTimeTrial}
+            className="flex-1 px-4 py-2 rounded-lg bg-gray-100 text-gray-700 font-semibold hover:bg-gray-200 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Countdown, live timer/score and results screen for the crate smash time trial.
+ */
+const TimeTrialHud: React.FC = () => {
+  const { phase, remaining, score, totalCrates, lastScoreTime, round } = useTimeTrial();
+  // Flash "GO!" for a moment after the countdown
+  const [showGo, setShowGo] = useState(false);
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    setShowGo(true);
+    const timer = setTimeout(() => setShowGo(false), 800);
+    return () => clearTimeout(timer);
+  }, [phase]);
+
+  if (phase === 'idle') return null;
+
+  if (phase === 'finished') {
+    // Keyed by round so a new run starts with an empty name form
+    return <Results key={round} score={score} total={totalCrates} time={lastScoreTime} />;
+  }
+
+  return (
+    <>
+      {(phase === 'countdown' || showGo) && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none select-none">
+          <span key={phase === 'countdown' ? Math.ceil(remaining) : 'go'} className="text-9xl font-black text-white drop-shadow-lg animate-in zoom-in duration-300">
+            {phase === 'countdown' ? Math.ceil(remaining) : 'GO!'}
+          </span>
+        </div>
+      )}
+      <div className="absolute top-8 left-1/2 -translate-x-1/2 z-10 flex items-center gap-4 bg-white/80 backdrop-blur-md px-5 py-3 rounded-xl border border-white/50 shadow-lg select-none">
+        <div className="flex items-center gap-2 font-mono text-lg text-slate-800">
+          <Timer className="w-5 h-5 text-slate-400" />
+          {formatTime(phase === 'running' ? remaining : RUN_SECONDS)}
+        </div>
+        <div className="flex items-center gap-2 font-mono text-lg text-slate-800">
+          <Box className="w-5 h-5 text-amber-500" />
+          {score} / {totalCrates}
+        </div>
+        <button
+          onClick={resetTimeTrial}
+          aria-label="Quit time trial"
+          className="p-1 rounded-full hover:bg-slate-200 transition-colors"
+        >
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default TimeTrialHud;
@@ -0,0 +1,115 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { Zap, Hand, Wind } from 'lucide-react';
+import { setTouchJoystick, setTouchButton } from '../services/touchInput';
+
+const JOYSTICK_RADIUS = 56; // px, travel of the knob from the centre
+
+const Joystick: React.FC = () => {
+  const baseRef = useRef<HTMLDivElement>(null);
+  const pointerId = useRef<number | null>(null);
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+
+  const update = (e: React.PointerEvent) => {
+    const base = baseRef.current;
+    if (!base) return;
+    const rect = base.getBoundingClientRect();
+    let dx = e.clientX - (rect.left + rect.width / 2);
+    let dy = e.clientY - (rect.top + rect.height / 2);
+    const dist = Math.hypot(dx, dy);
+    if (dist > JOYSTICK_RADIUS) {
+      dx = (dx / dist) * JOYSTICK_RADIUS;
+      dy = (dy / dist) * JOYSTICK_RADIUS;
+    }
+    setKnob({ x: dx, y: dy });
+    setTouchJoystick(dx / JOYSTICK_RADIUS, dy / JOYSTICK_RADIUS);
+  };
+
+  const release = () => {
+    pointerId.current = null;
+    setKnob({ x: 0, y: 0 });
+    setTouchJoystick(0, 0);
+  };
+
+  // Never leave the car driving if the component unmounts mid-drag
+  useEffect(() => release, []);
+
+  return (
+    <div
+      ref={baseRef}
+      className="relative w-36 h-36 rounded-full bg-white/40 backdrop-blur-md border border-white/60 shadow-lg pointer-events-auto touch-none"
+      onPointerDown={(e) => {
+        pointerId.current = e.pointerId;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        update(e);
+      }}
+      onPointerMove={(e) => {
+        if (pointerId.current === e.pointerId) update(e);
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+    >
+      <div
+        className="absolute left-1/2 top-1/2 w-14 h-14 -ml-7 -mt-7 rounded-full bg-slate-800/70 shadow-md"
+        style={{ transform: `translate(${knob.x}px, ${knob.y}px)` }}
+      />
+    </div>
+  );
+};
+
+const HoldButton: React.FC<{
+  button: 'boost' | 'handbrake' | 'interact';
+  label: string;
+  className: string;
+  children: React.ReactNode;
+}> = ({ button, label, className, children }) => {
+  const [pressed, setPressed] = useState(false);
+
+  const set = (value: boolean) => {
+    setPressed(value);
+    setTouchButton(button, value);
+  };
+
+  useEffect(() => () => setTouchButton(button, false), [button]);
+
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      className={`w-20 h-20 rounded-full flex flex-col items-center justify-center text-white text-xs font-bold shadow-lg pointer-events-auto touch-none select-none transition-transform ${className} ${pressed ? 'scale-90' : ''}`}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        set(true);
+      }}
+      onPointerUp={() => set(false)}
+      onPointerCancel={() => set(false)}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {children}
+    </button>
+  );
+};
+
+/**
+ * On-screen joystick plus boost/interact buttons for touch devices.
+ */
+const TouchControls: React.FC = () => (
+  <div className="absolute inset-x-0 bottom-0 p-6 flex items-end justify-between pointer-events-none select-none z-10">
+    <Joystick />
+    <div className="flex items-end gap-4">
+      <HoldButton button="handbrake" label="Drift" className="bg-slate-700/80">
+        <Wind className="w-6 h-6" />
+        DRIFT
+      </HoldButton>
+      <HoldButton button="boost" label="Boost" className="bg-amber-500/80">
+        <Zap className="w-6 h-6" />
+        BOOST
+      </HoldButton>
+      <HoldButton button="interact" label="Open section" className="bg-indigo-600/80 mb-10">
+        <Hand className="w-6 h-6" />
+        OPEN
+      </HoldButton>
+    </div>
+  </div>
+);
+
+export default TouchControls;
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef } from 'react';
+import { Compass, Clapperboard, SkipForward, X } from 'lucide-react';
+import { AppSection, SectionEntry } from '../types';
+import { useTour, finishIntro, playIntro, startTour, advanceTour, endTour } from '../services/tour';
+import { useAutopilot, requestAutopilot, cancelAutopilot } from '../services/autopilot';
+import { useTimeTrial } from '../services/timeTrial';
+
+interface TourHudProps {
+  sections: SectionEntry[];
+  activeSection: AppSection;
+  onSectionEnter: (section: AppSection) => void;
+}
+
+// Where the current tour stop is up to
+type StopStage = 'requested' | 'driving' | 'open';
+
+/**
+ * Intro caption with its skip button, plus the guided tour: drives to each
+ * section in manifest order, opens it, and moves on once it's closed.
+ */
+const TourHud: React.FC<TourHudProps> = ({ sections, activeSection, onSectionEnter }) => {
+  const { introStep, tourStep } = useTour();
+  const autopilot = useAutopilot();
+  const trialPhase = useTimeTrial().phase;
+  const stage = useRef<StopStage>('requested');
+  const stop = tourStep !== null ? sections[tourStep] : undefined;
+  const isOverlayOpen = activeSection !== AppSection.HOME;
+  const introPlaying = introStep !== null;
+
+  // A deep-linked section is already open, so don't fly the camera away from it
+  useEffect(() => {
+    if (isOverlayOpen) finishIntro();
+  }, []);
+
+  useEffect(() => {
+    if (!introPlaying) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') finishIntro();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [introPlaying]);
+
+  // Head for each stop as the tour reaches it
+  useEffect(() => {
+    if (tourStep === null) return;
+    if (!stop) {
+      endTour();
+      return;
+    }
+    stage.current = 'requested';
+    requestAutopilot(stop.id);
+  }, [tourStep, stop]);
+
+  // Drive there, wait for the section to be opened and closed, then move on
+  useEffect(() => {
+    if (!stop) return;
+    if (activeSection === stop.id) {
+      stage.current = 'open';
+    } else if (stage.current === 'open') {
+      if (activeSection === AppSection.HOME) advanceTour();
+    } else if (autopilot.target === stop.id) {
+      stage.current = 'driving';
+    } else if (stage.current === 'driving' && autopilot.target === null) {
+      // No route: open it anyway, which parks the car at the pad.
+      // No error means the player took the wheel, which ends the tour.
+      if (autopilot.error) onSectionEnter(stop.id);
+      else endTour();
+    }
+  }, [stop, activeSection, autopilot, onSectionEnter]);
+
+  const stopTour = () => {
+    endTour();
+    cancelAutopilot();
+  };
+
+  if (introPlaying) {
+    const passing = sections[introStep];
+    return (
+      <div className="absolute inset-x-0 bottom-24 z-20 flex flex-col items-center gap-3 select-none pointer-events-none">
+        {passing && (
+          <div key={passing.id} className="text-center animate-in fade-in duration-500">
+            <p className="text-4xl font-black drop-shadow-lg" style={{ color: passing.color }}>{passing.label}</p>
+            {passing.subtext && <p className="text-lg font-medium text-white drop-shadow">{passing.subtext}</p>}
+          </div>
+        )}
+        <button
+          onClick={finishIntro}
+          className="pointer-events-auto flex items-center gap-2 px-4 py-2 rounded-xl bg-white/80 backdrop-blur-md border border-white/50 shadow-lg text-sm font-medium text-slate-700 hover:bg-white transition-colors"
+        >
+          <SkipForward className="w-4 h-4" />
+          Skip intro (Esc)
+        </button>
+      </div>
+    );
+  }
+
+  if (isOverlayOpen || trialPhase !== 'idle') return null;
+
+  if (stop) {
+    return (
+      <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 bg-white/80 backdrop-blur-md px-4 py-2 rounded-xl border border-white/50 shadow-lg text-sm text-slate-700 select-none">
+        <Compass className="w-4 h-4" style={{ color: stop.color }} />
+        <span>
+          Tour {tourStep! + 1}/{sections.length}: heading to <strong>{stop.label}</strong>
+        </span>
+        <button
+          onClick={stopTour}
+          aria-label="End tour"
+          className="p-1 rounded-full hover:bg-slate-200 transition-colors"
+        >
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 text-sm select-none">
+      <button
+        onClick={startTour}
+        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 text-white shadow-lg hover:bg-slate-700 transition-colors"
+      >
+        <Compass className="w-4 h-4" />
+        Guided tour
+      </button>
+      <button
+        onClick={playIntro}
+        className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/80 backdrop-blur-md border border-white/50 shadow-lg text-slate-700 hover:bg-white transition-colors"
+      >
+        <Clapperboard className="w-4 h-4" />
+        Replay intro
+      </button>
+    </div>
+  );
+};
+
+export default TourHud;
@@ -1,227 +1,391 @@
-import React, { useRef, useState, useEffect, useMemo, useCallback } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { Text, Environment, ContactShadows, Float, Stars, Cloud } from '@react-three/drei';
+import React, { Suspense, useRef, useState, useEffect, useLayoutEffect, useMemo, useCallback } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Text, Environment, ContactShadows, Float, Stars, Cloud, Clouds, PerformanceMonitor } from '@react-three/drei';
 import * as THREE from 'three';
-import { AppSection } from '../types';
-
-// --- AUDIO SYSTEM (Web Audio API) ---
-
-class SoundManager {
-  ctx: AudioContext | null = null;
-  engineOsc: OscillatorNode | null = null;
-  engineGain: GainNode | null = null;
-  isInit = false;
-
-  init() {
-    if (this.isInit) return;
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    this.ctx = new AudioContextClass();
-    
-    // Engine Sound Setup (Sawtooth with LowPass)
-    this.engineOsc = this.ctx.createOscillator();
-    this.engineGain = this.ctx.createGain();
-    const filter = this.ctx.createBiquadFilter();
-    
-    this.engineOsc.type = 'sawtooth';
-    this.engineOsc.frequency.value = 60;
-    
-    filter.type = 'lowpass';
-    filter.frequency.value = 400;
-
-    this.engineGain.gain.value = 0;
-
-    this.engineOsc.connect(filter);
-    filter.connect(this.engineGain);
-    this.engineGain.connect(this.ctx.destination);
-    
-    this.engineOsc.start();
-    this.isInit = true;
-  }
-
-  updateEngine(speed: number) {
-    if (!this.ctx || !this.engineOsc || !this.engineGain) return;
-    if (this.ctx.state === 'suspended') this.ctx.resume();
-
-    // Base pitch 60Hz, increases with speed
-    // Speed ranges roughly 0 to 40
-    const pitch = 60 + (speed * 5); 
-    const volume = Math.min(0.1 + (speed * 0.01), 0.3);
-
-    this.engineOsc.frequency.setTargetAtTime(pitch, this.ctx.currentTime, 0.1);
-    this.engineGain.gain.setTargetAtTime(speed > 0.1 ? volume : 0, this.ctx.currentTime, 0.1);
-  }
-
-  playImpact(strength: number) {
-    if (!this.ctx) return;
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
-    
-    // White noise approximation using random frequency modulation
-    osc.type = 'triangle'; 
-    // Randomize frequency for "crash" noise texture
-    osc.frequency.setValueAtTime(100 + Math.random() * 200, this.ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(40, this.ctx.currentTime + 0.3);
-
-    gain.gain.setValueAtTime(Math.min(strength * 0.5, 0.8), this.ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.01, this.ctx.currentTime + 0.3);
-
-    osc.connect(gain);
-    gain.connect(this.ctx.destination);
-    osc.start();
-    osc.stop(this.ctx.currentTime + 0.3);
-  }
-}
-
-const soundManager = new SoundManager();
+import { FileText } from 'lucide-react';
+import { AppSection, PortfolioManifest, ControlInput } from '../types';
+import { readGamepad } from '../services/gamepad';
+import { ColliderWorld, StaticCollider, useStaticCollider } from '../services/colliders';
+import { NavGrid, NavPoint } from '../services/navigation';
+import { useAutopilot, cancelAutopilot } from '../services/autopilot';
+import { SpatialHash } from '../services/spatialHash';
+import { FixedStepClock, FIXED_DT, FRAME_PRIORITY, useFixedStep, dampingForStep, lerpAngle } from '../services/fixedStep';
+import { readTouch, useCoarsePointer } from '../services/touchInput';
+import TouchControls from './TouchControls';
+import SettingsPanel from './SettingsPanel';
+import TimeTrialHud from './TimeTrialHud';
+import TourHud from './TourHud';
+import PauseMenu from './PauseMenu';
+import Minimap, { MinimapFeed, createMinimapFeed } from './Minimap';
+import { InputBindings, isActionDown, isActionCode, isFormField, describeAction, describeKey, useBindings } from '../services/inputBindings';
+import { useTimeTrial, getTimeTrial, startCountdown, tickTimeTrial, RUN_SECONDS } from '../services/timeTrial';
+import { advanceTimeOfDay, lighting } from '../services/timeOfDay';
+import { advanceWeather, weather } from '../services/weather';
+import { Replay, ReplayRecorder, ReplaySample, sampleReplay, offerReplay, getGhostReplay } from '../services/replay';
+import { setDisplayMode } from '../services/displayMode';
+import { soundManager } from '../services/audio';
+import { getAppMode, subscribeAppMode, useAppMode } from '../services/appState';
+import { QUALITY_PRESETS, AUTO_TARGET_FPS, useGraphicsQuality, stepAutoQuality } from '../services/graphics';
+import { useTour, setIntroStep, finishIntro } from '../services/tour';
+import { CameraMode, CAMERA_MODES, useCameraState, getCameraState, setCameraParked, cycleCameraMode } from '../services/cameraMode';
 
 // --- INTERFACES ---
 
 interface WorldProps {
+  manifest: PortfolioManifest;
+  activeSection: AppSection;
   onSectionEnter: (section: AppSection) => void;
   isOverlayOpen: boolean;
+  // Focusable wrapper around the canvas; the overlay hands focus back to it on close
+  focusRef?: React.RefObject<HTMLDivElement | null>;
 }
 
 // --- CONTROLLER ---
 
 // Exposing refs for collision system
 type CarApi = {
+  // Simulation state as of the latest fixed tick
   position: React.MutableRefObject<THREE.Vector3>;
   velocity: React.MutableRefObject<THREE.Vector3>;
+  rotation: React.MutableRefObject<number>;
+  // Interpolated between the last two ticks for drawing and the camera
+  renderPosition: React.MutableRefObject<THREE.Vector3>;
+  renderRotation: React.MutableRefObject<number>;
+  // Front wheel angle in radians, positive = left
+  steerAngle: React.MutableRefObject<number>;
   radius: number;
   isBraking: React.MutableRefObject<boolean>;
+  // While set, driver input is ignored (e.g. during a race countdown)
+  frozen: React.MutableRefObject<boolean>;
+  // When set, every tick's resulting state is appended to it
+  recorder: React.MutableRefObject<ReplayRecorder | null>;
+  // Computer driver's input, used like a gamepad while the player isn't touching anything
+  autopilot: React.MutableRefObject<ControlInput | null>;
+  // Whether the player gave any driving input this frame
+  manualInput: React.MutableRefObject<boolean>;
+  teleport: (position: THREE.Vector3, rotation: number) => void;
 };
 
-const useCarController = (): { api: CarApi; rotation: number } => {
+// Driver input sampled once per rendered frame and held for that frame's ticks
+interface CarControls {
+  throttle: number; // -1 to 1
+  steer: number; // -1 (right) to 1 (left)
+  boost: boolean;
+  handbrake: boolean;
+}
+
+// Increased radius for wider car
+const CAR_RADIUS = 2.0;
+
+const anyPressed = (inputs: ControlInput[], button: 'boost' | 'handbrake' | 'reset' | 'interact'): boolean => {
+  for (let i = 0; i < inputs.length; i++) if (inputs[i][button]) return true;
+  return false;
+};
+
+const DRIVE_ACTIONS = ['throttle', 'brake', 'steerLeft', 'steerRight', 'boost', 'handbrake', 'reset'] as const;
+
+const isDriving = (input: ControlInput): boolean =>
+  input.throttle > 0 || input.brake > 0 || input.steer !== 0 || input.boost || input.handbrake || input.reset;
+
+const useCarController = (
+  clock: FixedStepClock,
+  colliders: ColliderWorld,
+  onInteract: React.MutableRefObject<() => void>
+): { api: CarApi } => {
   const position = useRef(new THREE.Vector3(0, 0.5, 0));
+  const previousPosition = useRef(new THREE.Vector3(0, 0.5, 0));
+  const renderPosition = useRef(new THREE.Vector3(0, 0.5, 0));
   const velocity = useRef(new THREE.Vector3(0, 0, 0));
+  const rotation = useRef(0);
+  const previousRotation = useRef(0);
+  const renderRotation = useRef(0);
   const isBraking = useRef(false);
-  const [rotation, setRotation] = useState(0);
+  const frozen = useRef(false);
+  const recorder = useRef<ReplayRecorder | null>(null);
+  const autopilot = useRef<ControlInput | null>(null);
+  const manualInput = useRef(false);
+  const controls = useRef<CarControls>({ throttle: 0, steer: 0, boost: false, handbrake: false });
+  const steerAngle = useRef(0);
   const keys = useRef<{ [key: string]: boolean }>({});
+  // Previous frame's gamepad/touch interact button, so holding it only fires once
+  const interactHeld = useRef(false);
+  const analogScratch = useRef<ControlInput[]>([]);
 
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
-      keys.current[e.code] = true;
-      // Init audio on first interaction
+      // Browsers only allow audio to start from a gesture, so the first key or tap starts it
       soundManager.init();
+      // Typing into a form or a menu isn't driving. Key-ups always count, so nothing sticks.
+      if (getAppMode() !== 'driving' || isFormField(e.target)) return;
+      keys.current[e.code] = true;
     };
     const onKeyUp = (e: KeyboardEvent) => (keys.current[e.code] = false);
+    // Touch controls are polled every frame, this only primes audio. Gamepad
+    // buttons don't count as a gesture, so pad-only players get sound after a click.
+    const onPointerDown = () => soundManager.init();
     window.addEventListener('keydown', onKeyDown);
     window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('pointerdown', onPointerDown);
+    // Let go of everything when the world pauses
+    const unsubscribe = subscribeAppMode(() => {
+      if (getAppMode() !== 'driving') keys.current = {};
+    });
     return () => {
       window.removeEventListener('keydown', onKeyDown);
       window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('pointerdown', onPointerDown);
+      unsubscribe();
     };
   }, []);
 
-  useFrame((_, delta) => {
-    // Reset Logic
-    if (keys.current['KeyR']) {
-      velocity.current.set(0, 0, 0);
-      position.current.set(0, 0.5, 0);
-      setRotation(0);
+  // Snap both simulation and interpolation state, so the car doesn't visibly slide there
+  const placeCar = useCallback((x: number, z: number, rot: number) => {
+    position.current.set(x, 0.5, z);
+    previousPosition.current.copy(position.current);
+    renderPosition.current.copy(position.current);
+    velocity.current.set(0, 0, 0);
+    rotation.current = previousRotation.current = renderRotation.current = rot;
+    steerAngle.current = 0;
+  }, []);
+
+  // 1. Sample input once per frame, before the simulation ticks
+  useFrame(() => {
+    if (frozen.current || getAppMode() !== 'driving') {
+      controls.current.throttle = 0;
+      controls.current.steer = 0;
+      controls.current.boost = false;
+      controls.current.handbrake = false;
       return;
     }
 
-    // Physics Constants
-    const isShiftPressed = keys.current['ShiftLeft'] || keys.current['ShiftRight'];
-    const fwdSpeed = isShiftPressed ? 80 : 40; // Forward acceleration
-    const revSpeed = 30; // Reverse acceleration
-    const friction = 0.97; // 0.97 means 3% speed loss per frame (at 60fps)
+    // Analog sources share one shape, so gamepad and touch joystick are handled alike
+    const analogInputs = analogScratch.current;
+    analogInputs.length = 0;
+    const pad = readGamepad();
+    const touch = readTouch();
+    if (pad) analogInputs.push(pad);
+    if (touch) analogInputs.push(touch);
+
+    // The player always wins over the autopilot
+    let manual = false;
+    for (const action of DRIVE_ACTIONS) manual = manual || isActionDown(action, keys.current);
+    for (const input of analogInputs) manual = manual || isDriving(input);
+    manualInput.current = manual;
+    if (autopilot.current && !manual) analogInputs.push(autopilot.current);
+
+    const interactPressed = anyPressed(analogInputs, 'interact');
+    if (interactPressed && !interactHeld.current) {
+      onInteract.current();
+    }
+    interactHeld.current = interactPressed;
 
-    const rotSpeed = 3.0 * delta;
+    // Reset Logic
+    if (isActionDown('reset', keys.current) || anyPressed(analogInputs, 'reset')) {
+      placeCar(0, 0, 0);
+      controls.current.throttle = 0;
+      controls.current.steer = 0;
+      return;
+    }
 
     let throttle = 0; // -1 to 1
+    let steer = 0; // -1 (right) to 1 (left)
 
     // Input handling
-    if (keys.current['ArrowUp'] || keys.current['KeyW']) {
+    if (isActionDown('throttle', keys.current)) {
       throttle += 1;
     }
-    if (keys.current['ArrowDown'] || keys.current['KeyS']) {
+    if (isActionDown('brake', keys.current)) {
       throttle -= 1;
     }
 
     // Steering
-    if (keys.current['ArrowLeft'] || keys.current['KeyA']) {
-      setRotation((r) => r + rotSpeed);
+    if (isActionDown('steerLeft', keys.current)) {
+      steer += 1;
     }
-    if (keys.current['ArrowRight'] || keys.current['KeyD']) {
-      setRotation((r) => r - rotSpeed);
+    if (isActionDown('steerRight', keys.current)) {
+      steer -= 1;
     }
 
-    // Apply Throttle
-    // We calculate acceleration vector based on car rotation
-    // cos(rot) is Z (Forward/Back), sin(rot) is X (Right/Left)
-    // Note: In 3JS, "Forward" usually -Z if rot=0.
-    
-    // Check direction
-    const accAmount = throttle > 0 ? fwdSpeed : revSpeed;
-    
-    if (throttle !== 0) {
-      // If throttle is positive (Forward), we subtract from Z (move "North")
-      // If throttle is negative (Backward), we add to Z (move "South")
-      // Formula: -1 * throttle * acc
-      
-      const dirX = Math.sin(rotation);
-      const dirZ = Math.cos(rotation);
-      
-      // If throttle 1 (Up): X -= sin * acc, Z -= cos * acc (Move Fwd)
-      // If throttle -1 (Down): X += sin * acc, Z += cos * acc (Move Back)
-      
-      velocity.current.x -= dirX * throttle * accAmount * delta;
-      velocity.current.z -= dirZ * throttle * accAmount * delta;
+    // Gamepad triggers/stick and touch joystick, combined with the keyboard so any works
+    for (const input of analogInputs) {
+      throttle = THREE.MathUtils.clamp(throttle + input.throttle - input.brake, -1, 1);
+      steer = THREE.MathUtils.clamp(steer + input.steer, -1, 1);
     }
 
+    controls.current.throttle = throttle;
+    controls.current.steer = steer;
+    controls.current.boost = isActionDown('boost', keys.current) || anyPressed(analogInputs, 'boost');
+    controls.current.handbrake = isActionDown('handbrake', keys.current) || anyPressed(analogInputs, 'handbrake');
+  }, FRAME_PRIORITY.input);
+
+  // 2. Integrate one fixed tick
+  useFixedStep(clock, (dt) => {
+    previousPosition.current.copy(position.current);
+    previousRotation.current = rotation.current;
+
+    const { throttle, steer, boost, handbrake } = controls.current;
+
+    // Physics Constants
+    const fwdSpeed = boost ? 80 : 40; // Forward acceleration
+    const revSpeed = 30; // Reverse acceleration
+    const friction = dampingForStep(0.97, dt); // 3% speed loss per 60th of a second
+    const maxYawRate = 3.0; // rad/s at full lock once the car is rolling
+    const fullTurnSpeed = 5; // below this forward speed, turning fades out to 0
+    // Lateral grip: how fast sideways velocity bleeds off (per second).
+    // The handbrake locks the rear so the tail steps out and slides, and a
+    // wet road loses up to 45% of it.
+    const grip = (handbrake ? 1.5 : 10) * (1 - 0.45 * weather.wetness);
+
+    // Split velocity into forward and sideways components in car space.
+    // Forward is (-sin, 0, -cos) at rotation 0 => -Z; right is (cos, 0, -sin).
+    const sin = Math.sin(rotation.current);
+    const cos = Math.cos(rotation.current);
+    const vel = velocity.current;
+    let forwardSpeed = -vel.x * sin - vel.z * cos;
+    let lateralSpeed = vel.x * cos - vel.z * sin;
+
+    // Steering scales with forward speed: none when parked, full lock from
+    // fullTurnSpeed, slightly less twitchy at top speed. Reversing flips it
+    // like a real car.
+    const absSpeed = Math.abs(forwardSpeed);
+    const turnFactor = THREE.MathUtils.clamp(absSpeed / fullTurnSpeed, 0, 1)
+      * (1 - 0.35 * THREE.MathUtils.clamp(absSpeed / 45, 0, 1));
+    const drift = handbrake ? 1.4 : 1;
+    rotation.current += steer * maxYawRate * turnFactor * drift * Math.sign(forwardSpeed) * dt;
+
+    // Throttle acts along the car's heading
+    const accAmount = throttle > 0 ? fwdSpeed : revSpeed;
+    forwardSpeed += throttle * accAmount * dt;
+
+    // Handbrake scrubs forward speed as well
+    if (handbrake) forwardSpeed *= dampingForStep(0.985, dt);
+    lateralSpeed *= Math.exp(-grip * dt);
+
+    // Recombine using the (possibly turned) new heading, so grip pulls the
+    // velocity round to follow the nose instead of sliding like ice
+    const newSin = Math.sin(rotation.current);
+    const newCos = Math.cos(rotation.current);
+    vel.x = -newSin * forwardSpeed + newCos * lateralSpeed;
+    vel.z = -newCos * forwardSpeed - newSin * lateralSpeed;
+
+    // Front wheels turn towards the requested lock (visual only)
+    steerAngle.current = THREE.MathUtils.lerp(steerAngle.current, steer * 0.5, 1 - Math.exp(-12 * dt));
+
     // Brake light logic
-    isBraking.current = throttle < 0;
+    isBraking.current = throttle < 0 || handbrake;
 
     // Apply Velocity to Position
-    const newPos = position.current.clone().add(velocity.current.clone().multiplyScalar(delta));
+    const pos = position.current;
+    pos.addScaledVector(velocity.current, dt);
     
     // Bounds Check
     const bound = 95;
-    if (Math.abs(newPos.x) > bound) {
-      newPos.x = Math.sign(newPos.x) * bound;
+    let edgeImpact = 0;
+    if (Math.abs(pos.x) > bound) {
+      pos.x = Math.sign(pos.x) * bound;
+      edgeImpact = Math.abs(velocity.current.x);
       velocity.current.x *= -0.5; // Bounce
     } 
-    if (Math.abs(newPos.z) > bound) {
-      newPos.z = Math.sign(newPos.z) * bound;
+    if (Math.abs(pos.z) > bound) {
+      pos.z = Math.sign(pos.z) * bound;
+      edgeImpact = Math.max(edgeImpact, Math.abs(velocity.current.z));
       velocity.current.z *= -0.5;
     }
-    
-    position.current.copy(newPos);
+
+    // Trees, pads and other registered props
+    const hit = colliders.resolveCircle(pos, velocity.current, CAR_RADIUS);
+    const impactSpeed = Math.max(hit.impactSpeed, edgeImpact);
+    if (impactSpeed > 3) {
+      soundManager.playImpact(Math.min(impactSpeed / 20, 1));
+    }
 
     // Friction
     velocity.current.multiplyScalar(friction);
 
-    // Audio Update
-    const currentSpeed = velocity.current.length();
-    soundManager.updateEngine(currentSpeed);
+    recorder.current?.record(pos.x, pos.z, rotation.current, isBraking.current);
   });
 
-  // Increased radius for wider car
-  const api = useMemo(() => ({ position, velocity, isBraking, radius: 2.0 }), []);
-
-  return { api, rotation };
+  // 3. Blend the last two ticks for rendering
+  useFrame((_, delta) => {
+    renderPosition.current.lerpVectors(previousPosition.current, position.current, clock.alpha);
+    renderRotation.current = lerpAngle(previousRotation.current, rotation.current, clock.alpha);
+
+    // Audio Update. Slip is the sideways component, as in the grip model above.
+    const vel = velocity.current;
+    const { throttle, boost, handbrake } = controls.current;
+    soundManager.updateCar({
+      speed: vel.length(),
+      throttle,
+      boost,
+      handbrake,
+      slip: vel.x * Math.cos(rotation.current) - vel.z * Math.sin(rotation.current),
+    }, delta);
+  }, FRAME_PRIORITY.interpolate);
+
+  // Used by routing to drop the car next to a deep-linked section
+  const teleport = useCallback((target: THREE.Vector3, rot: number) => {
+    placeCar(target.x, target.z, rot);
+  }, [placeCar]);
+
+  const api = useMemo(() => ({
+    position,
+    velocity,
+    rotation,
+    renderPosition,
+    renderRotation,
+    steerAngle,
+    isBraking,
+    frozen,
+    recorder,
+    autopilot,
+    manualInput,
+    radius: CAR_RADIUS,
+    teleport,
+  }), [teleport]);
+
+  return { api };
 };
 
 // --- COMPONENTS ---
 
-const Car: React.FC<{ api: CarApi; rotation: number }> = ({ api, rotation }) => {
+// What the car model needs to draw itself, so a replay can drive it too
+type CarVisualState = Pick<CarApi, 'renderPosition' | 'renderRotation' | 'velocity' | 'steerAngle' | 'isBraking'>;
+
+const Car: React.FC<{ api: CarVisualState; ghost?: boolean }> = ({ api, ghost = false }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const preset = QUALITY_PRESETS[useGraphicsQuality().level];
+
+  // Ghosts are see-through and don't cast shadows. Each mesh owns its material,
+  // so they can be changed in place.
+  useLayoutEffect(() => {
+    if (!ghost || !groupRef.current) return;
+    groupRef.current.traverse(object => {
+      if (!(object instanceof THREE.Mesh)) return;
+      object.castShadow = false;
+      const material = object.material as THREE.Material;
+      material.transparent = true;
+      material.opacity = 0.35;
+      material.depthWrite = false;
+    });
+  }, [ghost]);
   
   // Wheel Refs for animation
-  const flWheel = useRef<THREE.Mesh>(null);
-  const frWheel = useRef<THREE.Mesh>(null);
-  const rlWheel = useRef<THREE.Mesh>(null);
-  const rrWheel = useRef<THREE.Mesh>(null);
+  const flWheel = useRef<THREE.Group>(null);
+  const frWheel = useRef<THREE.Group>(null);
+  const rlWheel = useRef<THREE.Group>(null);
+  const rrWheel = useRef<THREE.Group>(null);
   
   // Taillights Ref
   const tailLightRef = useRef<THREE.MeshStandardMaterial>(null);
+  const headlightRef = useRef<THREE.SpotLight>(null);
+  // Spotlight target rides with the car, so the beam follows its heading
+  const headlightTarget = useMemo(() => new THREE.Object3D(), []);
 
   useFrame((_, delta) => {
+    const rotation = api.renderRotation.current;
     if (groupRef.current) {
-      // Smooth position update
-      groupRef.current.position.copy(api.position.current);
+      // Interpolated between physics ticks for smooth motion at any refresh rate
+      groupRef.current.position.copy(api.renderPosition.current);
       groupRef.current.rotation.y = rotation;
     }
 
@@ -229,9 +393,8 @@ const Car: React.FC<{ api: CarApi; rotation: number }> = ({ api, rotation }) =>
     // Project velocity onto forward vector to get "forward speed" vs "slide speed"
     // But for visual simple spin: length * sign(dot(vel, forward))
     const vel = api.velocity.current;
-    // Car forward vector
-    const fwd = new THREE.Vector3(-Math.sin(rotation), 0, -Math.cos(rotation));
-    const speed = vel.dot(fwd); // Positive = moving fwd, Negative = moving back
+    // Dot with car forward vector (-sin, 0, -cos)
+    const speed = -vel.x * Math.sin(rotation) - vel.z * Math.cos(rotation); // Positive = moving fwd, Negative = moving back
     
     const wheelRot = speed * delta * 2.5; // Multiplier for visual effect
 
@@ -240,19 +403,27 @@ const Car: React.FC<{ api: CarApi; rotation: number }> = ({ api, rotation }) =>
     if (rlWheel.current) rlWheel.current.rotation.x -= wheelRot;
     if (rrWheel.current) rrWheel.current.rotation.x -= wheelRot;
 
+    // Steering lock on the front pair
+    if (flWheel.current) flWheel.current.rotation.y = api.steerAngle.current;
+    if (frWheel.current) frWheel.current.rotation.y = api.steerAngle.current;
+
     // Brake Lights
     if (tailLightRef.current) {
       // If braking (pressing Down) OR reversing?
       // Actually usually brake lights are on when pressing brake pedal.
       // In our arcade logic, pressing Down is "Reverse/Brake".
+      // Running lights glow brighter after dusk
       if (api.isBraking.current) {
-        tailLightRef.current.emissiveIntensity = 4;
+        tailLightRef.current.emissiveIntensity = 4 + lighting.lamps * 2;
         tailLightRef.current.color.setHex(0xff0000);
       } else {
-        tailLightRef.current.emissiveIntensity = 1;
+        tailLightRef.current.emissiveIntensity = 1 + lighting.lamps * 1.5;
         tailLightRef.current.color.setHex(0x550000);
       }
     }
+
+    // Intensity only: toggling `visible` changes the light count and recompiles every material
+    if (headlightRef.current) headlightRef.current.intensity = 5 + lighting.lamps * 75;
   });
 
   const carColor = "#ef4444"; // Racing Red
@@ -319,24 +490,10 @@ const Car: React.FC<{ api: CarApi; rotation: number }> = ({ api, rotation }) =>
       </mesh>
 
       {/* --- WHEELS (Wider Racing Slicks with Animation) --- */}
-      {/* Note: Rotation order YXZ ensures Y handles steering (not implemented yet visually) and X handles spin */}
-      
-      <mesh ref={flWheel} position={[-0.95, 0.35, -1.3]} rotation={[0, 0, 0]}>
-        <cylinderGeometry args={[0.35, 0.35, 0.4, 24]} />
-        <meshStandardMaterial color="#111" roughness={0.8} />
-        {/* Rim Detail */}
-        <mesh position={[0, -0.21, 0]} rotation={[Math.PI/2, 0, 0]}>
-           <cylinderGeometry args={[0.2, 0.2, 0.05, 6]} />
-           <meshStandardMaterial color="#888" metalness={0.8} />
-        </mesh>
-        {/* We need to correct orientation because cylinder default is Y-up */}
-        {/* To make it roll on X axis, we wrap it in group or adjust rotation logic carefully. */}
-        {/* Current setup: Cylinder is vertical. We need it horizontal (Z axis of wheel). */}
-        {/* Let's adjust geometry orientation: Rotate PI/2 on Z */}
-      </mesh>
-      {/* Re-doing wheels with correct axis for rotation */}
+      {/* Note: Rotation order YXZ on the front wheels ensures Y handles steering and X handles spin */}
+
       <group position={[-0.95, 0.35, -1.3]}>
-         <group ref={flWheel}>
+         <group ref={flWheel} rotation={[0, 0, 0, 'YXZ']}>
              <mesh rotation={[0, 0, Math.PI/2]}>
                 <cylinderGeometry args={[0.35, 0.35, 0.4, 24]} />
                 <meshStandardMaterial color="#111" roughness={0.8} />
@@ -349,7 +506,7 @@ const Car: React.FC<{ api: CarApi; rotation: number }> = ({ api, rotation }) =>
       </group>
 
       <group position={[0.95, 0.35, -1.3]}>
-         <group ref={frWheel}>
+         <group ref={frWheel} rotation={[0, 0, 0, 'YXZ']}>
              <mesh rotation={[0, 0, Math.PI/2]}>
                 <cylinderGeometry args={[0.35, 0.35, 0.4, 24]} />
                 <meshStandardMaterial color="#111" roughness={0.8} />
@@ -399,7 +556,22 @@ const Car: React.FC<{ api: CarApi; rotation: number }> = ({ api, rotation }) =>
         <meshBasicMaterial color="#fff" />
       </mesh>
       
-      <spotLight position={[0, 1, -1]} angle={0.5} penumbra={0.5} intensity={5} castShadow distance={25} color="#fff" target-position={[0, 0, -10]} />
+      {!ghost && (
+        <>
+          <primitive object={headlightTarget} position={[0, 0, -10]} />
+          <spotLight
+            ref={headlightRef}
+            position={[0, 1, -1]}
+            angle={0.5}
+            penumbra={0.5}
+            intensity={5}
+            castShadow={preset.lampShadows}
+            distance={25}
+            color="#fff"
+            target={headlightTarget}
+          />
+        </>
+      )}
       
       {/* Taillights */}
       <mesh position={[0, 0.7, 2.15]}>
@@ -418,22 +590,63 @@ const Floor = () => (
   </mesh>
 );
 
-const Tree: React.FC<{ position: [number, number, number], scale?: number }> = ({ position, scale = 1 }) => (
-  <group position={position} scale={scale}>
-    <mesh position={[0, 0.5, 0]} castShadow>
-      <cylinderGeometry args={[0.2, 0.4, 1, 8]} />
-      <meshStandardMaterial color="#5d4037" />
-    </mesh>
-    <mesh position={[0, 1.75, 0]} castShadow>
-      <coneGeometry args={[1.2, 2.5, 8]} />
-      <meshStandardMaterial color="#15803d" />
-    </mesh>
-    <mesh position={[0, 2.75, 0]} castShadow>
-      <coneGeometry args={[0.9, 2, 8]} />
-      <meshStandardMaterial color="#22c55e" />
-    </mesh>
-  </group>
-);
+interface TreeData {
+  position: [number, number, number];
+  scale: number;
+}
+
+// Trunk and two foliage cones, each drawn as one InstancedMesh for the whole forest
+const TREE_PARTS = [
+  { y: 0.5, color: '#5d4037', geometry: <cylinderGeometry args={[0.2, 0.4, 1, 8]} /> },
+  { y: 1.75, color: '#15803d', geometry: <coneGeometry args={[1.2, 2.5, 8]} /> },
+  { y: 2.75, color: '#22c55e', geometry: <coneGeometry args={[0.9, 2, 8]} /> },
+];
+
+const TreePart: React.FC<{ trees: TreeData[]; part: typeof TREE_PARTS[number] }> = ({ trees, part }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  // Trees never move: write the matrices once
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const dummy = new THREE.Object3D();
+    trees.forEach((tree, i) => {
+      const [x, y, z] = tree.position;
+      dummy.position.set(x, y + part.y * tree.scale, z);
+      dummy.scale.setScalar(tree.scale);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [trees, part]);
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, trees.length]} castShadow>
+      {part.geometry}
+      <meshStandardMaterial color={part.color} />
+    </instancedMesh>
+  );
+};
+
+const Forest: React.FC<{ trees: TreeData[]; colliders: ColliderWorld }> = ({ trees, colliders }) => {
+  // Trunk plus the lower edge of the foliage, which is what a car would clip
+  useEffect(() => colliders.addAll(trees.map(tree => ({
+    kind: 'circle' as const,
+    x: tree.position[0],
+    z: tree.position[2],
+    radius: 0.7 * tree.scale,
+  }))), [trees, colliders]);
+
+  return (
+    <group>
+      {TREE_PARTS.map((part, i) => (
+        // Keyed by count so the instanced buffers are resized if the forest changes
+        <TreePart key={`${i}-${trees.length}`} trees={trees} part={part} />
+      ))}
+    </group>
+  );
+};
 
 // --- DESTRUCTIBLE CRATE SYSTEM ---
 
@@ -441,12 +654,169 @@ interface CrateData {
   id: number;
   position: THREE.Vector3;
   velocity: THREE.Vector3;
-  rotation: THREE.Euler;
+  rotation: THREE.Quaternion;
+  angularVelocity: THREE.Vector3;
+  // State at the previous tick, for render interpolation
+  previousPosition: THREE.Vector3;
+  previousRotation: THREE.Quaternion;
+  // Resting on the ground or on another crate this tick
+  supported: boolean;
   color: string;
+  // Initial layout, for resetting and for scoring the time trial
+  spawnPosition: THREE.Vector3;
+  spawnRotation: THREE.Quaternion;
 }
 
-const CrateSystem: React.FC<{ carApi: CarApi }> = ({ carApi }) => {
-  const meshRefs = useRef<THREE.Mesh[]>([]);
+// Handle the time trial uses to score and reset the crates
+type CrateApi = {
+  count: number;
+  // Crates knocked off their spawn spot
+  countDisplaced: () => number;
+  // Put every crate back where it started, at rest
+  reset: () => void;
+  // Current footprints, for path planning
+  obstacles: () => StaticCollider[];
+};
+
+const createCrate = (position: THREE.Vector3, yaw: number, color: string): CrateData => {
+  const rotation = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 1, 0), yaw);
+  return {
+    id: Math.random(),
+    position,
+    velocity: new THREE.Vector3(),
+    rotation,
+    angularVelocity: new THREE.Vector3(),
+    previousPosition: position.clone(),
+    previousRotation: rotation.clone(),
+    supported: false,
+    color,
+    spawnPosition: position.clone(),
+    spawnRotation: rotation.clone(),
+  };
+};
+
+// Crate physics tuning
+const CRATE_HALF = 0.5;
+const CRATE_GRAVITY = 20;
+const CRATE_RESTITUTION = 0.2;
+const CRATE_SOLVER_ITERATIONS = 3;
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+// How far a crate must move from its spawn spot to count as smashed. The
+// vertical limit catches crates knocked off the top of the wall.
+const CRATE_DISPLACED_XZ = 1;
+const CRATE_DISPLACED_Y = 0.5;
+
+// Dark border baked into a texture, so every crate keeps its outlined edges
+// while sharing one material (an EdgesGeometry per crate can't be instanced)
+const createCrateEdgeTexture = (): THREE.Texture => {
+  const size = 64;
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, size, size);
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.lineWidth = 4;
+  ctx.strokeRect(2, 2, size - 4, size - 4);
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+// Scratch objects reused by the frame loops below
+const crateDummy = new THREE.Object3D();
+const crateScratch = new THREE.Vector3();
+const crateLever = new THREE.Vector3();
+const crateTorque = new THREE.Vector3();
+const crateSpin = new THREE.Quaternion();
+const crateUp = new THREE.Vector3();
+const crateLevel = new THREE.Quaternion();
+
+/**
+ * Resolve overlap between two equal-mass crates as axis-aligned boxes.
+ * Boxes give flat contacts, so stacks rest on each other instead of rolling off.
+ */
+const resolveCratePair = (a: CrateData, b: CrateData) => {
+  const dx = b.position.x - a.position.x;
+  const dy = b.position.y - a.position.y;
+  const dz = b.position.z - a.position.z;
+  const size = CRATE_HALF * 2;
+  const ox = size - Math.abs(dx);
+  const oy = size - Math.abs(dy);
+  const oz = size - Math.abs(dz);
+  if (ox <= 0 || oy <= 0 || oz <= 0) return;
+
+  // Separate along the axis of least penetration
+  let nx = 0;
+  let ny = 0;
+  let nz = 0;
+  let depth: number;
+  if (oy <= ox && oy <= oz) {
+    ny = Math.sign(dy) || 1;
+    depth = oy;
+  } else if (ox <= oz) {
+    nx = Math.sign(dx) || 1;
+    depth = ox;
+  } else {
+    nz = Math.sign(dz) || 1;
+    depth = oz;
+  }
+
+  // A crate resting on a supported crate doesn't push it into the ground
+  const aShare = ny > 0 && a.supported ? 0 : ny < 0 && b.supported ? 1 : 0.5;
+  a.position.x -= nx * depth * aShare;
+  a.position.y -= ny * depth * aShare;
+  a.position.z -= nz * depth * aShare;
+  b.position.x += nx * depth * (1 - aShare);
+  b.position.y += ny * depth * (1 - aShare);
+  b.position.z += nz * depth * (1 - aShare);
+
+  // Exchange momentum along the normal if they're closing
+  const closing = (b.velocity.x - a.velocity.x) * nx
+    + (b.velocity.y - a.velocity.y) * ny
+    + (b.velocity.z - a.velocity.z) * nz;
+  if (closing < 0) {
+    const j = (-(1 + CRATE_RESTITUTION) * closing) / 2;
+    a.velocity.x -= nx * j;
+    a.velocity.y -= ny * j;
+    a.velocity.z -= nz * j;
+    b.velocity.x += nx * j;
+    b.velocity.y += ny * j;
+    b.velocity.z += nz * j;
+  }
+
+  // Whichever crate is on top is now supported
+  if (ny > 0 && a.supported) b.supported = true;
+  if (ny < 0 && b.supported) a.supported = true;
+};
+
+// Whether a circle at (x, z) overlaps static collider `c`
+const overlapsCircle = (c: StaticCollider, x: number, z: number, radius: number): boolean => {
+  if (c.kind === 'circle') return Math.hypot(x - c.x, z - c.z) < radius + c.radius;
+  // Box: into box space the same way ColliderWorld does, then clamp to it
+  const cos = Math.cos(c.rotation ?? 0);
+  const sin = Math.sin(c.rotation ?? 0);
+  const dx = x - c.x;
+  const dz = z - c.z;
+  const lx = dx * cos - dz * sin;
+  const lz = dx * sin + dz * cos;
+  return Math.hypot(lx - THREE.MathUtils.clamp(lx, -c.halfX, c.halfX), lz - THREE.MathUtils.clamp(lz, -c.halfZ, c.halfZ)) < radius;
+};
+
+const CrateSystem: React.FC<{
+  carApi: CarApi;
+  clock: FixedStepClock;
+  colliders: ColliderWorld;
+  apiRef: React.MutableRefObject<CrateApi | null>;
+  // Static shapes crates must not spawn inside. The collider world isn't
+  // filled in yet on the first render, so these are passed in.
+  spawnObstacles: readonly StaticCollider[];
+}> = ({ carApi, clock, colliders, apiRef, spawnObstacles }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const edgeTexture = useMemo(createCrateEdgeTexture, []);
+  // Broad phase for car-vs-crate checks, rebuilt every tick
+  const hash = useMemo(() => new SpatialHash<CrateData>(4), []);
+  const nearby = useRef<CrateData[]>([]);
   
   // Initialize crates logic state
   const crates = useRef<CrateData[]>([]);
@@ -457,120 +827,556 @@ const CrateSystem: React.FC<{ carApi: CarApi }> = ({ carApi }) => {
     // Create a wall of crates and some scattered ones
     const colors = ['#facc15', '#fbbf24', '#f59e0b', '#d97706'];
     
-    // Wall
+    const pick = () => colors[Math.floor(Math.random() * colors.length)];
+
+    // Wall, stacked so it rests on itself until something hits it
     for (let x = -5; x <= 5; x++) {
       for (let y = 0; y < 3; y++) {
-        crates.current.push({
-          id: Math.random(),
-          position: new THREE.Vector3(x * 1.5 - 20, 0.5 + y * 1.1, 15), // Near project area
-          velocity: new THREE.Vector3(0, 0, 0),
-          rotation: new THREE.Euler(0, 0, 0),
-          color: colors[Math.floor(Math.random() * colors.length)]
-        });
+        crates.current.push(createCrate(new THREE.Vector3(x * 1.5 - 20, 0.5 + y * 1.1, 15), 0, pick())); // Near project area
       }
     }
     
     // Random piles
+    const crateRadius = CRATE_HALF * Math.SQRT2;
     for(let i=0; i<15; i++) {
-        crates.current.push({
-          id: Math.random(),
-          position: new THREE.Vector3((Math.random() - 0.5) * 60, 0.5, (Math.random() - 0.5) * 60 + 20),
-          velocity: new THREE.Vector3(0, 0, 0),
-          rotation: new THREE.Euler(0, Math.random() * Math.PI, 0),
-          color: colors[Math.floor(Math.random() * colors.length)]
-        });
+        const position = new THREE.Vector3((Math.random() - 0.5) * 60, 0.5, (Math.random() - 0.5) * 60 + 20);
+        // Keep the time trial start line and its posts clear
+        if (Math.hypot(position.x - START_LINE.x, position.z - START_LINE.z) < 7) continue;
+        // A crate spawned overlapping something gets pushed off its spot on the
+        // first tick and would count as smashed in every time trial
+        if (spawnObstacles.some(c => overlapsCircle(c, position.x, position.z, crateRadius))) continue;
+        if (crates.current.some(c => Math.hypot(c.position.x - position.x, c.position.z - position.z) < crateRadius * 2)) continue;
+        crates.current.push(createCrate(position, Math.random() * Math.PI, pick()));
     }
   }
 
-  useFrame((_, delta) => {
-    // Physics Sub-step
+  // Per-instance colours only need setting once, before the first draw so the
+  // material compiles with instance colour support
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const color = new THREE.Color();
+    crates.current.forEach((crate, i) => mesh.setColorAt(i, color.set(crate.color)));
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, []);
+
+  useEffect(() => () => edgeTexture.dispose(), [edgeTexture]);
+
+  useEffect(() => {
+    const list = crates.current;
+    apiRef.current = {
+      count: list.length,
+      countDisplaced: () => {
+        let displaced = 0;
+        for (let i = 0; i < list.length; i++) {
+          const { position, spawnPosition } = list[i];
+          if (
+            Math.hypot(position.x - spawnPosition.x, position.z - spawnPosition.z) > CRATE_DISPLACED_XZ
+            || Math.abs(position.y - spawnPosition.y) > CRATE_DISPLACED_Y
+          ) {
+            displaced++;
+          }
+        }
+        return displaced;
+      },
+      reset: () => {
+        for (const crate of list) {
+          crate.position.copy(crate.spawnPosition);
+          crate.previousPosition.copy(crate.spawnPosition);
+          crate.rotation.copy(crate.spawnRotation);
+          crate.previousRotation.copy(crate.spawnRotation);
+          crate.velocity.set(0, 0, 0);
+          crate.angularVelocity.set(0, 0, 0);
+          crate.supported = false;
+        }
+      },
+      obstacles: () => list.map(crate => ({
+        kind: 'circle' as const,
+        x: crate.position.x,
+        z: crate.position.z,
+        radius: CRATE_HALF * Math.SQRT2,
+      })),
+    };
+    return () => {
+      apiRef.current = null;
+    };
+  }, [apiRef]);
+
+  // Runs after the car's tick (order 1), so collisions use this tick's car position
+  useFixedStep(clock, (dt) => {
     const carPos = carApi.position.current;
     const carVel = carApi.velocity.current;
+    const groundFriction = dampingForStep(0.90, dt);
+    const spinFriction = dampingForStep(0.85, dt);
+    const airSpinDrag = dampingForStep(0.995, dt);
+    const list = crates.current;
+
+    // 1. Integrate
+    for (let i = 0; i < list.length; i++) {
+      const crate = list[i];
+      crate.previousPosition.copy(crate.position);
+      crate.previousRotation.copy(crate.rotation);
+
+      crate.velocity.y -= CRATE_GRAVITY * dt;
+      crate.position.addScaledVector(crate.velocity, dt);
+
+      // Spin: q += 0.5 * (0, w) * q * dt
+      const w = crate.angularVelocity;
+      if (w.lengthSq() > 1e-6) {
+        crateSpin.set(w.x * dt * 0.5, w.y * dt * 0.5, w.z * dt * 0.5, 0).multiply(crate.rotation);
+        crate.rotation.set(
+          crate.rotation.x + crateSpin.x,
+          crate.rotation.y + crateSpin.y,
+          crate.rotation.z + crateSpin.z,
+          crate.rotation.w + crateSpin.w
+        ).normalize();
+      }
 
-    crates.current.forEach((crate, i) => {
-      const mesh = meshRefs.current[i];
-      if (!mesh) return;
+      // Ground contact
+      crate.supported = false;
+      if (crate.position.y <= CRATE_HALF) {
+        crate.position.y = CRATE_HALF;
+        // Small bounce on hard landings, otherwise settle
+        crate.velocity.y = crate.velocity.y < -4 ? -crate.velocity.y * CRATE_RESTITUTION : Math.max(crate.velocity.y, 0);
+        crate.supported = true;
+      }
 
-      // 1. Apply Physics to Crate
-      // Gravity
-      if (crate.position.y > 0.5) {
-        crate.velocity.y -= 20 * delta;
-      } else {
-        crate.velocity.y = 0;
-        crate.position.y = 0.5;
-        // Ground friction
-        crate.velocity.multiplyScalar(0.90);
+      // Crates bounce off trees and pads too
+      colliders.resolveCircle(crate.position, crate.velocity, 0.6);
+    }
+
+    // 2. Crate vs crate, a few passes so stacks settle from the ground up
+    for (let iter = 0; iter < CRATE_SOLVER_ITERATIONS; iter++) {
+      hash.clear();
+      for (let i = 0; i < list.length; i++) {
+        hash.insert(list[i], list[i].position.x, list[i].position.z, CRATE_HALF);
       }
+      for (let i = 0; i < list.length; i++) {
+        const a = list[i];
+        for (const b of hash.query(a.position.x, a.position.z, CRATE_HALF * 2, nearby.current)) {
+          // Each pair once
+          if (b.id <= a.id) continue;
+          resolveCratePair(a, b);
+        }
+      }
+    }
 
-      crate.position.add(crate.velocity.clone().multiplyScalar(delta));
-      
-      // Simple rotation based on velocity
-      crate.rotation.x += crate.velocity.z * delta * 0.5;
-      crate.rotation.z -= crate.velocity.x * delta * 0.5;
+    // 3. Friction, and level out crates that are resting so they lie flat
+    for (let i = 0; i < list.length; i++) {
+      const crate = list[i];
+      if (!crate.supported) {
+        crate.angularVelocity.multiplyScalar(airSpinDrag);
+        continue;
+      }
+      crate.velocity.x *= groundFriction;
+      crate.velocity.z *= groundFriction;
+      crate.angularVelocity.multiplyScalar(spinFriction);
+
+      // Turn whichever face is closest to up towards straight up, keeping yaw
+      crateUp.set(0, 1, 0).applyQuaternion(crate.rotation);
+      crateLever.set(1, 0, 0).applyQuaternion(crate.rotation);
+      if (Math.abs(crateLever.y) > Math.abs(crateUp.y)) crateUp.copy(crateLever);
+      crateLever.set(0, 0, 1).applyQuaternion(crate.rotation);
+      if (Math.abs(crateLever.y) > Math.abs(crateUp.y)) crateUp.copy(crateLever);
+      if (crateUp.y < 0) crateUp.negate();
+      crateLevel.setFromUnitVectors(crateUp, WORLD_UP);
+      crate.rotation.premultiply(crateSpin.identity().slerp(crateLevel, 1 - spinFriction));
+    }
 
-      // 2. Collision with Car
+    // 4. Collision with Car (only crates in nearby cells)
+    hash.clear();
+    for (let i = 0; i < list.length; i++) {
+      hash.insert(list[i], list[i].position.x, list[i].position.z, CRATE_HALF);
+    }
+    const minDist = carApi.radius + 0.8; // Dynamic based on car size
+    for (const crate of hash.query(carPos.x, carPos.z, minDist, nearby.current)) {
       const dist = crate.position.distanceTo(carPos);
-      const minDist = carApi.radius + 0.8; // Dynamic based on car size
-
-      if (dist < minDist) {
-        // Impact vector
-        const direction = new THREE.Vector3().subVectors(crate.position, carPos).normalize();
-        
-        // Transfer momentum
-        const impactForce = carVel.length() * 1.5; // Multiplier for fun
-        const forceVec = direction.multiplyScalar(impactForce);
-        
-        // Add vertical pop
-        forceVec.y = Math.min(impactForce * 0.5, 10);
-
-        crate.velocity.add(forceVec);
-        
-        // Push crate out of car to prevent sticking
-        const pushOut = direction.clone().multiplyScalar(minDist - dist);
-        crate.position.add(pushOut);
-
-        // Play Sound
-        if (impactForce > 5) {
-          soundManager.playImpact(impactForce / 20);
-        }
+      if (dist >= minDist) continue;
+
+      // Impact vector
+      const direction = crateScratch.subVectors(crate.position, carPos).normalize();
+      
+      // Push crate out of car to prevent sticking
+      crate.position.addScaledVector(direction, minDist - dist);
+
+      // Transfer momentum
+      const impactForce = carVel.length() * 1.5; // Multiplier for fun
+      crate.velocity.addScaledVector(direction, impactForce);
+      
+      // Add vertical pop
+      const pop = Math.min(impactForce * 0.5, 10) - direction.y * impactForce;
+      crate.velocity.y += pop;
+
+      // Spin from an off-centre hit: torque = lever x impulse, lever from the
+      // crate centre to the contact point on the side facing the car
+      crateLever.copy(direction).multiplyScalar(-CRATE_HALF);
+      crateLever.y = -CRATE_HALF * 0.5; // Hit below the centre of mass, so it tips over
+      crateTorque.copy(direction).multiplyScalar(impactForce);
+      crateTorque.y += pop;
+      crate.angularVelocity.add(crateLever.cross(crateTorque).multiplyScalar(1.5));
+
+      // Play Sound
+      if (impactForce > 5) {
+        soundManager.playCrateHit(impactForce / 20);
       }
+    }
+  }, 1);
 
-      // Update Mesh
-      mesh.position.copy(crate.position);
-      mesh.rotation.copy(crate.rotation);
-    });
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const alpha = clock.alpha;
+    const list = crates.current;
+    for (let i = 0; i < list.length; i++) {
+      const crate = list[i];
+      crateDummy.position.lerpVectors(crate.previousPosition, crate.position, alpha);
+      crateDummy.quaternion.slerpQuaternions(crate.previousRotation, crate.rotation, alpha);
+      crateDummy.updateMatrix();
+      mesh.setMatrixAt(i, crateDummy.matrix);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
   });
 
   return (
-    <group>
-      {crates.current.map((crate, i) => (
-        <mesh 
-          key={crate.id} 
-          ref={el => (meshRefs.current[i] = el!)} 
-          castShadow 
-          receiveShadow
-          position={crate.position}
-        >
-          <boxGeometry args={[1, 1, 1]} />
-          <meshStandardMaterial color={crate.color} />
-          <lineSegments>
-            <edgesGeometry args={[new THREE.BoxGeometry(1, 1, 1)]} />
-            <lineBasicMaterial color="black" linewidth={2} opacity={0.2} transparent />
-          </lineSegments>
+    // Crates move, so skip frustum culling on the stale instance bounds
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, crates.current.length]}
+      castShadow
+      receiveShadow
+      frustumCulled={false}
+    >
+      <boxGeometry args={[1, 1, 1]} />
+      <meshStandardMaterial map={edgeTexture} />
+    </instancedMesh>
+  );
+};
+
+// --- CRATE SMASH TIME TRIAL ---
+
+// Start line, facing -Z so the crate wall is straight ahead
+const START_LINE = { x: -20, z: 28, halfWidth: 4, halfDepth: 1.5 };
+
+// Black and white squares, two rows deep
+const createCheckerTexture = (): THREE.Texture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 16;
+  canvas.height = 2;
+  const ctx = canvas.getContext('2d')!;
+  for (let x = 0; x < 16; x++) {
+    for (let y = 0; y < 2; y++) {
+      ctx.fillStyle = (x + y) % 2 ? '#0f172a' : '#ffffff';
+      ctx.fillRect(x, y, 1, 1);
+    }
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.magFilter = THREE.NearestFilter;
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+const ghostSample: ReplaySample = { x: 0, z: 0, rotation: 0, isBraking: false };
+const ghostNext: ReplaySample = { x: 0, z: 0, rotation: 0, isBraking: false };
+
+/**
+ * Translucent car driving a recorded run, in step with the current one.
+ * `runTicks` is the number of ticks the current run has simulated.
+ */
+const GhostCar: React.FC<{
+  replay: Replay;
+  runTicks: React.MutableRefObject<number>;
+  clock: FixedStepClock;
+}> = ({ replay, runTicks, clock }) => {
+  const state = useMemo(() => ({
+    renderPosition: { current: new THREE.Vector3(0, 0.5, 0) },
+    renderRotation: { current: 0 },
+    velocity: { current: new THREE.Vector3() },
+    steerAngle: { current: 0 },
+    isBraking: { current: false },
+  }), []);
+
+  useFrame(() => {
+    // The player's car is drawn between its last two ticks, so match that
+    const tick = runTicks.current - 2;
+    sampleReplay(replay, tick, clock.alpha, ghostSample);
+    sampleReplay(replay, tick + 1, 0, ghostNext);
+    state.renderPosition.current.set(ghostSample.x, 0.5, ghostSample.z);
+    state.renderRotation.current = ghostSample.rotation;
+    state.isBraking.current = ghostSample.isBraking;
+    // Only used to spin the wheels
+    state.velocity.current.set((ghostNext.x - ghostSample.x) / FIXED_DT, 0, (ghostNext.z - ghostSample.z) / FIXED_DT);
+  }, FRAME_PRIORITY.interpolate);
+
+  return <Car api={state} ghost />;
+};
+
+/**
+ * Start line plus the glue between the physics world and the time trial store:
+ * crossing the line starts a countdown, the timer runs on the physics clock and
+ * the score is read straight from the crates.
+ */
+const TimeTrial: React.FC<{
+  carApi: CarApi;
+  crateApi: React.MutableRefObject<CrateApi | null>;
+  clock: FixedStepClock;
+  colliders: ColliderWorld;
+}> = ({ carApi, crateApi, clock, colliders }) => {
+  const { phase, round } = useTimeTrial();
+  const checker = useMemo(createCheckerTexture, []);
+  // The car has to leave the line before crossing it starts another run
+  const armed = useRef(true);
+  // Ticks simulated in the current run, which is also the replay frame count
+  const runTicks = useRef(0);
+  // Ghost to race, fixed for the whole run even if a new one is imported
+  const [ghost, setGhost] = useState<Replay | null>(null);
+
+  useEffect(() => () => checker.dispose(), [checker]);
+
+  // Gantry posts at either end of the line
+  const posts = useMemo(() => [-1, 1].map(side => ({
+    kind: 'circle' as const,
+    x: START_LINE.x + side * (START_LINE.halfWidth + 1),
+    z: START_LINE.z,
+    radius: 0.4,
+  })), []);
+  useEffect(() => colliders.addAll(posts), [colliders, posts]);
+
+  // Every run starts from the line with a fresh crate layout
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+    crateApi.current?.reset();
+    carApi.teleport(new THREE.Vector3(START_LINE.x, 0, START_LINE.z), 0);
+    armed.current = false;
+    runTicks.current = 0;
+    setGhost(getGhostReplay());
+  }, [phase, carApi, crateApi]);
+
+  // Leaving the results screen puts the crates back
+  useEffect(() => {
+    if (round > 0) crateApi.current?.reset();
+  }, [round, crateApi]);
+
+  // No driving during the countdown or while the results are up
+  useEffect(() => {
+    carApi.frozen.current = phase === 'countdown' || phase === 'finished';
+    return () => {
+      carApi.frozen.current = false;
+    };
+  }, [phase, carApi]);
+
+  // After the crates' tick, so the score sees where they ended up
+  useFixedStep(clock, (dt) => {
+    const { phase } = getTimeTrial();
+    const crates = crateApi.current;
+    if (!crates) return;
+
+    if (phase === 'idle') {
+      // Quit mid-run: drop the recording
+      carApi.recorder.current = null;
+      const pos = carApi.position.current;
+      const onLine = Math.abs(pos.x - START_LINE.x) < START_LINE.halfWidth
+        && Math.abs(pos.z - START_LINE.z) < START_LINE.halfDepth;
+      if (onLine && armed.current) startCountdown(crates.count);
+      else if (!onLine) armed.current = true;
+      return;
+    }
+
+    tickTimeTrial(dt, phase === 'running' ? crates.countDisplaced() : 0);
+
+    // The car has already ticked, so recording starts with the first tick after "GO"
+    const next = getTimeTrial();
+    if (phase === 'countdown' && next.phase === 'running') {
+      carApi.recorder.current = new ReplayRecorder(RUN_SECONDS);
+    } else if (phase === 'running') {
+      runTicks.current++;
+    }
+    if (phase === 'running' && next.phase === 'finished' && carApi.recorder.current) {
+      offerReplay(carApi.recorder.current.finish({ score: next.score, time: next.lastScoreTime }));
+      carApi.recorder.current = null;
+    }
+  }, 2);
+
+  return (
+    <>
+      {ghost && (phase === 'countdown' || phase === 'running') && (
+        <GhostCar replay={ghost} runTicks={runTicks} clock={clock} />
+      )}
+      <group position={[START_LINE.x, 0, START_LINE.z]}>
+        <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, 0]} receiveShadow>
+          <planeGeometry args={[START_LINE.halfWidth * 2, START_LINE.halfDepth * 2]} />
+          <meshStandardMaterial map={checker} />
         </mesh>
-      ))}
-    </group>
+        {posts.map((post, i) => (
+          <mesh key={i} position={[post.x - START_LINE.x, 2, 0]} castShadow>
+            <cylinderGeometry args={[0.3, 0.3, 4, 12]} />
+            <meshStandardMaterial color="#ef4444" />
+          </mesh>
+        ))}
+        <mesh position={[0, 4, 0]} castShadow>
+          <boxGeometry args={[START_LINE.halfWidth * 2 + 2.6, 0.8, 0.3]} />
+          <meshStandardMaterial color="#0f172a" />
+        </mesh>
+        <Text position={[0, 4, 0.16]} fontSize={0.5} color="#ffffff" anchorX="center" anchorY="middle">
+          {phase === 'idle' ? 'CRATE SMASH • CROSS TO START' : 'CRATE SMASH'}
+        </Text>
+      </group>
+    </>
   );
 };
 
+// --- AUTOPILOT ---
+
+// Keep the car's body plus a margin clear of trees and crates
+const AUTOPILOT_CLEARANCE = CAR_RADIUS + 0.5;
+const AUTOPILOT_REPLAN_SECONDS = 1;
+const AUTOPILOT_CRUISE_SPEED = 18;
+// Waypoints count as passed within this distance
+const AUTOPILOT_WAYPOINT_RADIUS = 4;
+// Inside the 6 unit interact range once parked against the pad's collider
+const AUTOPILOT_ARRIVAL_DISTANCE = 7;
+const AUTOPILOT_STUCK_SECONDS = 1.5;
+const AUTOPILOT_REVERSE_SECONDS = 1;
+
+/**
+ * Drives the car to the requested section by feeding it controller input,
+ * exactly like a gamepad would. Re-plans around crates as they get knocked
+ * about, backs up when wedged, and hands back control on any player input.
+ */
+const Autopilot: React.FC<{
+  carApi: CarApi;
+  colliders: ColliderWorld;
+  crateApi: React.MutableRefObject<CrateApi | null>;
+  triggers: { pos: THREE.Vector3; section: AppSection; text: string }[];
+  onArrive: (section: AppSection) => void;
+}> = ({ carApi, colliders, crateApi, triggers, onArrive }) => {
+  const { target } = useAutopilot();
+  const nav = useMemo(() => new NavGrid(95, 2), []);
+  const input = useMemo<ControlInput>(() => ({
+    throttle: 0,
+    brake: 0,
+    steer: 0,
+    boost: false,
+    handbrake: false,
+    reset: false,
+    interact: false,
+  }), []);
+  const path = useRef<NavPoint[] | null>(null);
+  const sinceReplan = useRef(0);
+  const stuckFor = useRef(0);
+  const reversingFor = useRef(0);
+
+  // Plug into the controller only while there is somewhere to go
+  useEffect(() => {
+    if (target === null) return;
+    path.current = null;
+    sinceReplan.current = Infinity;
+    stuckFor.current = 0;
+    reversingFor.current = 0;
+    carApi.autopilot.current = input;
+    return () => {
+      carApi.autopilot.current = null;
+    };
+  }, [target, carApi, input]);
+
+  useFrame((_, delta) => {
+    if (target === null) return;
+    const goal = triggers.find(t => t.section === target);
+    if (!goal) {
+      cancelAutopilot('That section is not in the world');
+      return;
+    }
+    // Any key, stick or touch from the player, or a race countdown, takes over
+    if (carApi.manualInput.current || carApi.frozen.current) {
+      cancelAutopilot();
+      return;
+    }
+
+    const pos = carApi.position.current;
+    const vel = carApi.velocity.current;
+    const rot = carApi.rotation.current;
+    const forwardSpeed = -vel.x * Math.sin(rot) - vel.z * Math.cos(rot);
+    input.throttle = 0;
+    input.brake = 0;
+    input.steer = 0;
+
+    // Arrived: brake to a stop, then open the section
+    const toGoal = Math.hypot(goal.pos.x - pos.x, goal.pos.z - pos.z);
+    if (toGoal < AUTOPILOT_ARRIVAL_DISTANCE) {
+      if (forwardSpeed > 1.5) {
+        input.brake = 1;
+        return;
+      }
+      cancelAutopilot();
+      onArrive(target);
+      return;
+    }
+
+    // Crates move, so the grid is rebuilt with their current spots each time
+    sinceReplan.current += delta;
+    if (sinceReplan.current >= AUTOPILOT_REPLAN_SECONDS) {
+      sinceReplan.current = 0;
+      nav.rebuild([...colliders.all(), ...(crateApi.current?.obstacles() ?? [])], AUTOPILOT_CLEARANCE);
+      path.current = nav.findPath({ x: pos.x, z: pos.z }, { x: goal.pos.x, z: goal.pos.z });
+      if (!path.current) {
+        cancelAutopilot(`No clear route to ${goal.text}`);
+        return;
+      }
+    }
+    const waypoints = path.current;
+    if (!waypoints) return;
+
+    // Drop waypoints as they're reached; the last leg heads for the pad itself
+    while (waypoints.length > 1 && Math.hypot(waypoints[1].x - pos.x, waypoints[1].z - pos.z) < AUTOPILOT_WAYPOINT_RADIUS) {
+      waypoints.splice(1, 1);
+    }
+    const aim = waypoints.length > 1 ? waypoints[1] : { x: goal.pos.x, z: goal.pos.z };
+    // Car forward is (-sin r, -cos r)
+    const heading = Math.atan2(-(aim.x - pos.x), -(aim.z - pos.z));
+    const turn = Math.atan2(Math.sin(heading - rot), Math.cos(heading - rot));
+
+    // Wedged against something: back out, steering the other way
+    if (reversingFor.current > 0) {
+      reversingFor.current -= delta;
+      input.brake = 1;
+      input.steer = -Math.sign(turn);
+      return;
+    }
+    if (forwardSpeed < 1) {
+      stuckFor.current += delta;
+      if (stuckFor.current > AUTOPILOT_STUCK_SECONDS) {
+        stuckFor.current = 0;
+        reversingFor.current = AUTOPILOT_REVERSE_SECONDS;
+        sinceReplan.current = Infinity;
+      }
+    } else {
+      stuckFor.current = 0;
+    }
+
+    input.steer = THREE.MathUtils.clamp(turn * 2, -1, 1);
+    // Slow for sharp turns and the final approach
+    const cornering = 1 - 0.6 * Math.min(Math.abs(turn) / (Math.PI / 2), 1);
+    const targetSpeed = Math.min(AUTOPILOT_CRUISE_SPEED, 4 + toGoal * 0.8) * cornering;
+    if (forwardSpeed < targetSpeed) input.throttle = 1;
+    else if (forwardSpeed > targetSpeed + 5) input.brake = 0.5;
+  }, FRAME_PRIORITY.autopilot);
+
+  return null;
+};
+
 // --- TRIGGERS ---
 
+// Solid radius of a pad's glow column
+const PAD_COLLIDER_RADIUS = 3;
+
 interface SectionTriggerProps {
   position: [number, number, number];
   text: string;
   subtext?: string;
   color: string;
   carPos: React.MutableRefObject<THREE.Vector3>;
+  hint: string;
+  onSelect: () => void;
+  colliders: ColliderWorld;
 }
 
 const SectionTrigger: React.FC<SectionTriggerProps> = ({ 
@@ -578,12 +1384,27 @@ const SectionTrigger: React.FC<SectionTriggerProps> = ({
   text, 
   color, 
   subtext,
-  carPos 
+  carPos,
+  hint,
+  onSelect,
+  colliders
 }) => {
   const [active, setActive] = useState(false);
+
+  // The glow column is solid; the car can still get within the 6 unit trigger range
+  const collider = useMemo(
+    () => ({ kind: 'circle' as const, x: position[0], z: position[2], radius: PAD_COLLIDER_RADIUS }),
+    [position[0], position[2]]
+  );
+  useStaticCollider(colliders, collider);
+  const [hovered, setHovered] = useState(false);
+
+  useEffect(() => {
+    document.body.style.cursor = hovered ? 'pointer' : '';
+  }, [hovered]);
   
   useFrame(() => {
-    const dist = carPos.current.distanceTo(new THREE.Vector3(...position));
+    const dist = Math.hypot(carPos.current.x - position[0], carPos.current.y - position[1], carPos.current.z - position[2]);
     setActive(dist < 6);
   });
   
@@ -616,15 +1437,28 @@ const SectionTrigger: React.FC<SectionTriggerProps> = ({
             {subtext}
           </Text>
         )}
-        <mesh castShadow receiveShadow>
-          <cylinderGeometry args={[3.5, 3.5, 0.2, 32]} />
-          <meshStandardMaterial color={active ? 'white' : color} transparent opacity={0.8} />
-        </mesh>
-        {/* Glow column */}
-        <mesh position={[0, 2, 0]}>
-          <cylinderGeometry args={[3, 3, 4, 32]} />
-          <meshStandardMaterial color={color} transparent opacity={0.15} />
-        </mesh>
+        {/* Tapping/clicking the pad opens the section directly */}
+        <group
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelect();
+          }}
+          onPointerOver={(e) => {
+            e.stopPropagation();
+            setHovered(true);
+          }}
+          onPointerOut={() => setHovered(false)}
+        >
+          <mesh castShadow receiveShadow>
+            <cylinderGeometry args={[3.5, 3.5, 0.2, 32]} />
+            <meshStandardMaterial color={active || hovered ? 'white' : color} transparent opacity={0.8} />
+          </mesh>
+          {/* Glow column */}
+          <mesh position={[0, 2, 0]}>
+            <cylinderGeometry args={[3, 3, 4, 32]} />
+            <meshStandardMaterial color={color} transparent opacity={0.15} />
+          </mesh>
+        </group>
       </Float>
       
       {active && (
@@ -636,84 +1470,381 @@ const SectionTrigger: React.FC<SectionTriggerProps> = ({
           padding={0.3}
           billboard
          >
-           Press ENTER to Open
+           {hint}
          </Text>
       )}
     </group>
   );
 };
 
-const SceneContent: React.FC<WorldProps> = ({ onSectionEnter, isOverlayOpen }) => {
-  const { api: carApi, rotation } = useCarController();
-  
-  const triggers = useMemo(() => [
-    { pos: new THREE.Vector3(0, 0, -25), section: AppSection.ABOUT, text: "About Me", color: "#6366f1", subtext: "The Developer" },
-    { pos: new THREE.Vector3(25, 0, 0), section: AppSection.SKILLS, text: "Skills", color: "#10b981", subtext: "Tech Stack" },
-    { pos: new THREE.Vector3(0, 0, 25), section: AppSection.CONTACT, text: "Contact", color: "#f59e0b", subtext: "Get in Touch" },
-    { pos: new THREE.Vector3(-25, 0, -8), section: AppSection.VEO_STUDIO, text: "Veo Studio", color: "#9333ea", subtext: "Generative Video" },
-    { pos: new THREE.Vector3(-25, 0, 8), section: AppSection.IMAGE_EDITOR, text: "Magic Editor", color: "#3b82f6", subtext: "Image Editing" },
-  ], []);
+// --- LIGHTING ---
+
+// Scratch colour for greying out the sky under cloud
+const overcastGrey = new THREE.Color();
+
+const greyOut = (color: THREE.Color, amount: number) => {
+  const luminance = color.r * 0.3 + color.g * 0.59 + color.b * 0.11;
+  color.lerp(overcastGrey.setRGB(luminance, luminance, luminance), amount);
+};
+
+/**
+ * Sun/moon, ambient light, sky, fog and stars, driven by the time of day and weather.
+ */
+const SkyLighting: React.FC = () => {
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const sunRef = useRef<THREE.DirectionalLight>(null);
+  const starsRef = useRef<THREE.Points>(null);
+  const background = useMemo(() => new THREE.Color(), []);
+  const starFade = useMemo(() => ({ value: 1 }), []);
+  const preset = QUALITY_PRESETS[useGraphicsQuality().level];
+
+  // three only allocates the shadow map once, so drop it when the size changes
+  useEffect(() => {
+    const shadow = sunRef.current?.shadow;
+    if (!shadow?.map) return;
+    shadow.map.dispose();
+    shadow.map = null;
+  }, [preset.shadowMapSize]);
+
+  // drei's star shader has no opacity, so scale its colour by our own uniform.
+  // Stars are drawn additively, so darker is the same as more transparent.
+  useLayoutEffect(() => {
+    const material = starsRef.current?.material as THREE.ShaderMaterial | undefined;
+    if (!material) return;
+    material.onBeforeCompile = (shader) => {
+      shader.uniforms.nightFade = starFade;
+      shader.fragmentShader = `uniform float nightFade;\n${shader.fragmentShader}`
+        .replace('gl_FragColor = vec4(vColor, opacity);', 'gl_FragColor = vec4(vColor * nightFade, opacity);');
+    };
+    material.needsUpdate = true;
+  }, [starFade]);
+
+  // Before the car and anything else that reads `lighting` or `weather` this frame
+  useFrame((state, delta) => {
+    const light = advanceTimeOfDay(delta);
+    const sky = advanceWeather(delta);
+    const { scene } = state;
+
+    background.copy(light.skyColor);
+    greyOut(background, sky.clouds * 0.6);
+    scene.background = background;
+    if (scene.fog instanceof THREE.Fog) {
+      scene.fog.color.copy(light.fogColor);
+      greyOut(scene.fog.color, sky.clouds * 0.5);
+      scene.fog.near = sky.fogNear;
+      scene.fog.far = sky.fogFar;
+    }
+    scene.environmentIntensity = light.environmentIntensity * sky.sunScale;
+
+    if (ambientRef.current) ambientRef.current.intensity = light.ambientIntensity;
+    if (sunRef.current) {
+      sunRef.current.intensity = light.sunIntensity * sky.sunScale;
+      sunRef.current.color.copy(light.sunColor);
+      sunRef.current.position.copy(light.sunPosition);
+    }
+    if (starsRef.current) {
+      // Cloud cover hides the stars too
+      starFade.value = light.stars * (1 - sky.clouds);
+      starsRef.current.visible = starFade.value > 0.01;
+    }
+
+    soundManager.updateRain(sky.rain);
+  }, FRAME_PRIORITY.interpolate);
+
+  return (
+    <>
+      <ambientLight ref={ambientRef} intensity={lighting.ambientIntensity} />
+      <directionalLight
+        ref={sunRef}
+        position={lighting.sunPosition.toArray()}
+        intensity={lighting.sunIntensity}
+        castShadow={preset.shadows}
+        shadow-mapSize={[preset.shadowMapSize, preset.shadowMapSize]}
+        shadow-bias={-0.0001}
+      />
+      <Environment preset="park" />
+      <Stars ref={starsRef} radius={100} depth={50} count={preset.stars} factor={4} saturation={0} fade speed={1} />
+    </>
+  );
+};
+
+// --- WEATHER ---
+
+// Cloud banks spread over the play area: [x, y, z, seed]
+const CLOUD_BANKS: [number, number, number, number][] = [
+  [-60, 38, -50, 1], [10, 42, -70, 2], [65, 36, -30, 3], [-30, 40, 10, 4],
+  [40, 44, 30, 5], [-70, 37, 60, 6], [15, 41, 75, 7], [70, 39, 70, 8],
+];
+
+const cloudDay = new THREE.Color('#ffffff');
+const cloudStorm = new THREE.Color('#64748b');
+
+/**
+ * Cloud cover. drei's Clouds share one material, whose opacity and colour are
+ * driven from the weather instead of re-rendering every Cloud.
+ */
+const WeatherClouds: React.FC = () => {
+  const groupRef = useRef<THREE.Group>(null);
+  const material = useRef<THREE.MeshLambertMaterial | null>(null);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    if (!material.current) {
+      group.traverse(object => {
+        if (object instanceof THREE.InstancedMesh) material.current = object.material as THREE.MeshLambertMaterial;
+      });
+      if (!material.current) return;
+    }
+    material.current.opacity = weather.clouds;
+    // Rain clouds are darker, and all clouds dim with the daylight
+    material.current.color.lerpColors(cloudDay, cloudStorm, weather.rain).multiplyScalar(0.35 + 0.65 * (1 - lighting.stars));
+    group.visible = weather.clouds > 0.02;
+  });
+
+  return (
+    <Clouds ref={groupRef} limit={160}>
+      {CLOUD_BANKS.map(([x, y, z, seed]) => (
+        <Cloud key={seed} seed={seed} position={[x, y, z]} bounds={[14, 3, 8]} segments={18} volume={14} speed={0.1} fade={40} />
+      ))}
+    </Clouds>
+  );
+};
+
+const RAIN_DROPS = 6000;
+// Box of rain kept centred on the camera, so it's always raining where you look
+const RAIN_AREA = new THREE.Vector3(60, 30, 60);
+
+const RAIN_VERTEX_SHADER = `
+  uniform float uTime;
+  uniform float uAmount;
+  uniform vec3 uCenter;
+  uniform vec3 uArea;
+  attribute float aSeed;
+  varying float vAlpha;
+  void main() {
+    // position is 0..1 in the rain box; wrap it around the camera in world
+    // space so drops stay put as the camera moves
+    vec3 p = position * uArea;
+    vec3 origin = uCenter - uArea * 0.5;
+    vec3 world;
+    world.x = origin.x + mod(p.x - origin.x, uArea.x);
+    world.z = origin.z + mod(p.z - origin.z, uArea.z);
+    world.y = mod(p.y - uTime * (22.0 + 8.0 * aSeed), uArea.y);
+    vec4 mvPosition = modelViewMatrix * vec4(world, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    // Drops past the current amount are collapsed away
+    gl_PointSize = aSeed < uAmount ? 60.0 / -mvPosition.z : 0.0;
+    vAlpha = 0.55;
+  }
+`;
+
+const RAIN_FRAGMENT_SHADER = `
+  uniform vec3 uColor;
+  varying float vAlpha;
+  void main() {
+    // A thin vertical streak inside the point sprite
+    if (abs(gl_PointCoord.x - 0.5) > 0.04) discard;
+    gl_FragColor = vec4(uColor, vAlpha * (1.0 - gl_PointCoord.y));
+  }
+`;
+
+/**
+ * GPU rain: drops are animated entirely in the vertex shader, the CPU only
+ * updates a few uniforms per frame.
+ */
+const Rain: React.FC = () => {
+  const geometry = useMemo(() => {
+    const positions = new Float32Array(RAIN_DROPS * 3);
+    const seeds = new Float32Array(RAIN_DROPS);
+    for (let i = 0; i < RAIN_DROPS; i++) {
+      positions[i * 3] = Math.random();
+      positions[i * 3 + 1] = Math.random();
+      positions[i * 3 + 2] = Math.random();
+      seeds[i] = Math.random();
+    }
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    g.setAttribute('aSeed', new THREE.BufferAttribute(seeds, 1));
+    return g;
+  }, []);
+  const uniforms = useMemo(() => ({
+    uTime: { value: 0 },
+    uAmount: { value: 0 },
+    uCenter: { value: new THREE.Vector3() },
+    uArea: { value: RAIN_AREA },
+    uColor: { value: new THREE.Color('#cbd5e1') },
+  }), []);
+  const pointsRef = useRef<THREE.Points>(null);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((state, delta) => {
+    uniforms.uTime.value = (uniforms.uTime.value + delta) % 1000;
+    uniforms.uAmount.value = weather.rain;
+    uniforms.uCenter.value.copy(state.camera.position);
+    if (pointsRef.current) pointsRef.current.visible = weather.rain > 0.01;
+  });
+
+  return (
+    // Positions are placed in the shader, so the bounds are meaningless
+    <points ref={pointsRef} geometry={geometry} frustumCulled={false}>
+      <shaderMaterial
+        vertexShader={RAIN_VERTEX_SHADER}
+        fragmentShader={RAIN_FRAGMENT_SHADER}
+        uniforms={uniforms}
+        transparent
+        depthWrite={false}
+      />
+    </points>
+  );
+};
+
+interface SceneContentProps extends WorldProps {
+  minimap: MinimapFeed;
+  // Called when the closest section in interact range changes
+  onNearbyChange: (section: AppSection | null) => void;
+}
+
+const SceneContent: React.FC<SceneContentProps> = ({
+  manifest,
+  activeSection,
+  onSectionEnter,
+  minimap,
+  onNearbyChange,
+}) => {
+  // Gamepad "A" shares the Enter handler below; the ref is filled once triggers exist
+  const interactRef = useRef<() => void>(() => {});
+  // Car and crate physics tick at a fixed rate, independent of display refresh
+  const clock = useMemo(() => new FixedStepClock(), []);
+  // Physics only runs while driving; overlays and the pause menu stop the clock
+  useFrame((_, delta) => {
+    if (getAppMode() === 'driving') clock.advance(delta);
+  }, FRAME_PRIORITY.simulate);
+  // Static obstacles (trees, pads) register themselves here
+  const colliders = useMemo(() => new ColliderWorld(), []);
+  const { api: carApi } = useCarController(clock, colliders, interactRef);
+  const crateApi = useRef<CrateApi | null>(null);
+  const isTouch = useCoarsePointer();
+  const bindings = useBindings();
+
+  const triggers = useMemo(() => manifest.sections.map(s => ({
+    pos: new THREE.Vector3(...s.position),
+    section: s.id,
+    text: s.label,
+    color: s.color,
+    subtext: s.subtext,
+  })), [manifest]);
+
+  const landmarks = useMemo(() => triggers.map(t => t.pos), [triggers]);
+
+  // Sections opened from the URL (deep link, back/forward) rather than by driving:
+  // park the car in front of the matching pad, facing it
+  useEffect(() => {
+    const target = triggers.find(t => t.section === activeSection);
+    if (!target || target.pos.distanceTo(carApi.position.current) < 6) return;
+
+    const approach = target.pos.clone().setY(0);
+    const toOrigin = approach.clone().negate().normalize();
+    if (toOrigin.lengthSq() === 0) toOrigin.set(0, 0, 1);
+    const spot = approach.clone().addScaledVector(toOrigin, 5);
+    // Car forward is (-sin r, -cos r)
+    const rot = Math.atan2(-(approach.x - spot.x), -(approach.z - spot.z));
+    carApi.teleport(spot, rot);
+  }, [activeSection, triggers, carApi]);
+
+  const interact = useCallback(() => {
+    const closest = triggers.find(t => t.pos.distanceTo(carApi.position.current) < 6);
+    if (closest) {
+      onSectionEnter(closest.section);
+    }
+  }, [carApi, onSectionEnter, triggers]);
+  interactRef.current = interact;
+
+  // Report the pad in range to the DOM, only when it changes
+  const nearby = useRef<AppSection | null>(null);
+  useFrame(() => {
+    const closest = triggers.find(t => t.pos.distanceTo(carApi.position.current) < 6)?.section ?? null;
+    if (closest !== nearby.current) {
+      nearby.current = closest;
+      onNearbyChange(closest);
+    }
+  });
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Enter') {
-        const closest = triggers.find(t => t.pos.distanceTo(carApi.position.current) < 6);
-        if (closest) {
-          onSectionEnter(closest.section);
-        }
+      // Enter in an overlay's form must not re-open the section underneath
+      if (getAppMode() !== 'driving' || isFormField(e.target)) return;
+      if (isActionCode('interact', e.code)) {
+        interact();
       }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [carApi, onSectionEnter, triggers]);
+  }, [interact]);
 
   const trees = useMemo(() => {
-    const temp = [];
+    const temp: TreeData[] = [];
     for (let i = 0; i < 60; i++) {
       const x = (Math.random() - 0.5) * 160;
       const z = (Math.random() - 0.5) * 160;
       if (Math.abs(x) < 15 && Math.abs(z) < 45) continue;
       if (Math.abs(z) < 15 && Math.abs(x) < 45) continue;
+      // Keep manifest-placed trigger pads clear wherever they are moved to
+      if (triggers.some(t => Math.hypot(t.pos.x - x, t.pos.z - z) < 8)) continue;
+      if (Math.hypot(START_LINE.x - x, START_LINE.z - z) < 10) continue;
       temp.push({ position: [x, 0, z] as [number, number, number], scale: 0.6 + Math.random() * 0.8 });
     }
     return temp;
-  }, []);
+  }, [triggers]);
+
+  // Everything solid that exists before the crates are placed
+  const spawnObstacles = useMemo<StaticCollider[]>(() => [
+    ...trees.map(tree => ({ kind: 'circle' as const, x: tree.position[0], z: tree.position[2], radius: 0.7 * tree.scale })),
+    ...triggers.map(t => ({ kind: 'circle' as const, x: t.pos.x, z: t.pos.z, radius: PAD_COLLIDER_RADIUS })),
+  ], [trees, triggers]);
+
+  // Share what the minimap draws and routes around
+  useEffect(() => {
+    minimap.colliders = colliders;
+    minimap.trees = trees.map(t => ({ x: t.position[0], z: t.position[2], radius: 0.7 * t.scale }));
+  }, [minimap, colliders, trees]);
+  useFrame(() => {
+    minimap.carPosition.copy(carApi.renderPosition.current);
+    minimap.carRotation = carApi.renderRotation.current;
+  });
 
   return (
     <>
-      <ambientLight intensity={0.7} />
-      <directionalLight 
-        position={[40, 60, 20]} 
-        intensity={1.8} 
-        castShadow 
-        shadow-mapSize={[2048, 2048]} 
-        shadow-bias={-0.0001}
-      />
-      <Environment preset="park" />
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+      <SkyLighting />
+      {/* Cloud texture loads separately, so the world doesn't wait for it */}
+      <Suspense fallback={null}>
+        <WeatherClouds />
+      </Suspense>
+      <Rain />
       
-      <Car api={carApi} rotation={rotation} />
+      <Car api={carApi} />
       
       {/* Physics Objects */}
-      <CrateSystem carApi={carApi} />
+      <CrateSystem carApi={carApi} clock={clock} colliders={colliders} apiRef={crateApi} spawnObstacles={spawnObstacles} />
+      <TimeTrial carApi={carApi} crateApi={crateApi} clock={clock} colliders={colliders} />
+      <Autopilot carApi={carApi} colliders={colliders} crateApi={crateApi} triggers={triggers} onArrive={onSectionEnter} />
 
       <Floor />
 
-      {trees.map((tree, i) => (
-        <Tree key={i} position={tree.position} scale={tree.scale} />
-      ))}
+      <Forest trees={trees} colliders={colliders} />
 
-      <CameraHandler target={carApi.position} isOverlayOpen={isOverlayOpen} />
+      <CameraHandler car={carApi} landmarks={landmarks} />
 
       <group position={[0, 0.05, 5]} rotation={[-Math.PI/2, 0, 0]}>
          <Text fontSize={1.5} color="#94a3b8" anchorX="center" position={[0, 0, 0]}>
-           Use Arrow Keys to Drive
+           {`Use ${driveKeys(bindings, 0) || driveKeys(bindings, 1)} to Drive`}
          </Text>
          <Text fontSize={1} color="#cbd5e1" anchorX="center" position={[0, -2, 0]}>
-           Hold SHIFT for Turbo • Press 'R' to Reset
+           {`Hold ${describeAction('boost')} for Turbo • Press ${describeAction('reset')} to Reset`}
          </Text>
          <Text fontSize={0.8} color="#ef4444" anchorX="center" position={[0, -4, 0]}>
-           Smash the crates!
+           Smash the crates! Cross the start line to race the clock
          </Text>
       </group>
 
@@ -725,65 +1856,363 @@ const SceneContent: React.FC<WorldProps> = ({ onSectionEnter, isOverlayOpen }) =
           subtext={t.subtext}
           color={t.color} 
           carPos={carApi.position}
+          hint={isTouch ? 'Tap OPEN or the Pad' : `Press ${describeAction('interact')} to Open`}
+          onSelect={() => onSectionEnter(t.section)}
+          colliders={colliders}
         />
       ))}
     </>
   );
 };
 
-const CameraHandler = ({ target, isOverlayOpen }: { target: React.MutableRefObject<THREE.Vector3>; isOverlayOpen: boolean }) => {
-  const distance = useRef(20);
+// Zoom range per camera: distance behind or around the car for chase and orbit,
+// height for top-down, and field of view for cockpit (which can't move back)
+const CAMERA_ZOOM: Record<CameraMode, { min: number; max: number; initial: number }> = {
+  chase: { min: 6, max: 40, initial: 16 },
+  cockpit: { min: 35, max: 80, initial: 65 },
+  topDown: { min: 15, max: 80, initial: 40 },
+  orbit: { min: 5, max: 40, initial: 16 },
+};
+const CAMERA_FOV = 45;
+const CAMERA_TRANSITION_SECONDS = 0.8;
+// Chase cam spring. Critically damped, so it trails the car without bouncing.
+const CHASE_STIFFNESS = 80;
+// Hysteresis on the car's speed for when orbit becomes available
+const PARKED_SPEED = 0.5;
+const MOVING_SPEED = 2;
+// Intro fly-through: seconds spent travelling to and lingering at each pad
+const INTRO_SECONDS_PER_STOP = 3.5;
+
+// Camera keyframes for the intro: an overview, then a swoop past each pad
+// from the outside, looking in at its label
+const buildIntroPath = (landmarks: THREE.Vector3[]) => {
+  const positions = [new THREE.Vector3(0, 60, 70)];
+  const looks = [new THREE.Vector3(0, 0, 0)];
+  for (const pad of landmarks) {
+    const outward = new THREE.Vector3(pad.x, 0, pad.z);
+    if (outward.lengthSq() === 0) outward.set(0, 0, 1);
+    outward.normalize();
+    positions.push(pad.clone().addScaledVector(outward, 16).setY(pad.y + 8));
+    looks.push(pad.clone().setY(pad.y + 4));
+  }
+  return {
+    stops: landmarks.length,
+    positions: new THREE.CatmullRomCurve3(positions),
+    looks: new THREE.CatmullRomCurve3(looks),
+  };
+};
+
+const springScratch = new THREE.Vector3();
+
+// Advance a critically damped spring pulling `position` towards `target`
+const springTo = (position: THREE.Vector3, velocity: THREE.Vector3, target: THREE.Vector3, stiffness: number, delta: number) => {
+  const damping = 2 * Math.sqrt(stiffness);
+  // Substep so a long frame can't overshoot
+  const steps = Math.ceil(Math.min(delta, 0.1) / FIXED_DT);
+  const h = Math.min(delta, 0.1) / steps;
+  for (let i = 0; i < steps; i++) {
+    springScratch.subVectors(target, position).multiplyScalar(stiffness).addScaledVector(velocity, -damping);
+    velocity.addScaledVector(springScratch, h);
+    position.addScaledVector(velocity, h);
+  }
+};
+
+interface CameraHandlerProps {
+  car: CarVisualState & Pick<CarApi, 'manualInput'>;
+  // Pads the intro flies past, in manifest order
+  landmarks: THREE.Vector3[];
+}
+
+const CameraHandler = ({ car, landmarks }: CameraHandlerProps) => {
+  const { mode } = useCameraState();
+  const introPlaying = useTour().introStep !== null;
+  const introPath = useMemo(() => buildIntroPath(landmarks), [landmarks]);
+  const introTime = useRef(0);
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+  const { camera, gl } = useThree();
+  const zoom = useRef(
+    Object.fromEntries(CAMERA_MODES.map(m => [m.mode, CAMERA_ZOOM[m.mode].initial])) as Record<CameraMode, number>
+  );
+  const orbit = useRef({ yaw: 0, pitch: 0.6 });
+  const chase = useRef({ position: new THREE.Vector3().copy(camera.position), velocity: new THREE.Vector3() });
+  // Where the camera is looking, kept so mode switches can blend it too
+  const look = useRef(new THREE.Vector3());
+  const desired = useRef({ position: new THREE.Vector3(), look: new THREE.Vector3() });
+  // Pose at the moment of the last mode switch, blended out over the transition
+  const transition = useRef({ progress: 1, position: new THREE.Vector3(), look: new THREE.Vector3(), fov: CAMERA_FOV });
+
+  // Blend from the current pose whenever the mode changes or the intro starts or ends
+  useEffect(() => {
+    introTime.current = 0;
+    const t = transition.current;
+    t.progress = 0;
+    t.position.copy(camera.position);
+    t.look.copy(look.current);
+    t.fov = (camera as THREE.PerspectiveCamera).fov;
+
+    if (mode === 'chase') {
+      chase.current.position.copy(camera.position);
+      chase.current.velocity.set(0, 0, 0);
+    } else if (mode === 'orbit') {
+      // Start orbiting from wherever the camera is now
+      const offset = camera.position.clone().sub(car.renderPosition.current);
+      const range = CAMERA_ZOOM.orbit;
+      orbit.current.yaw = Math.atan2(offset.x, offset.z);
+      orbit.current.pitch = THREE.MathUtils.clamp(Math.asin(offset.y / Math.max(offset.length(), 0.001)), 0.1, 1.45);
+      zoom.current.orbit = THREE.MathUtils.clamp(offset.length(), range.min, range.max);
+    }
+  }, [mode, introPlaying, camera, car]);
 
   useEffect(() => {
+    // Same feel in every mode: a full sweep of the range is ~35 wheel notches' worth
+    const nudge = (amount: number) => {
+      const range = CAMERA_ZOOM[modeRef.current];
+      const z = zoom.current;
+      z[modeRef.current] = THREE.MathUtils.clamp(
+        z[modeRef.current] + (amount * (range.max - range.min)) / 35,
+        range.min,
+        range.max
+      );
+    };
     const onWheel = (e: WheelEvent) => {
-      if (isOverlayOpen) return;
+      if (getAppMode() !== 'driving') return;
       // Zoom out (increase distance) if deltaY > 0
-      distance.current = THREE.MathUtils.clamp(distance.current + e.deltaY * 0.02, 5, 40);
+      nudge(e.deltaY * 0.02);
     };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (getAppMode() !== 'driving' || isFormField(e.target)) return;
+      if (isActionCode('camera', e.code)) cycleCameraMode();
+      else nudge(isActionCode('zoomIn', e.code) ? -2 : isActionCode('zoomOut', e.code) ? 2 : 0);
+    };
+
+    // Drag on the canvas to look around the parked car
+    let dragging: { x: number; y: number } | null = null;
+    const onPointerDown = (e: PointerEvent) => {
+      if (modeRef.current === 'orbit') dragging = { x: e.clientX, y: e.clientY };
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (!dragging || modeRef.current !== 'orbit') return;
+      orbit.current.yaw -= (e.clientX - dragging.x) * 0.008;
+      orbit.current.pitch = THREE.MathUtils.clamp(orbit.current.pitch + (e.clientY - dragging.y) * 0.006, 0.1, 1.45);
+      dragging = { x: e.clientX, y: e.clientY };
+    };
+    const onPointerUp = () => {
+      dragging = null;
+    };
+
     window.addEventListener('wheel', onWheel);
-    return () => window.removeEventListener('wheel', onWheel);
-  }, [isOverlayOpen]);
-
-  useFrame((state) => {
-    const offsetDistance = distance.current;
-    // 45 degree angle: y = z = dist * sin(45)
-    // sin(45) approx 0.707
-    const y = offsetDistance * 0.707;
-    const z = offsetDistance * 0.707;
-    
-    const offset = new THREE.Vector3(0, y, z);
-    const t = target.current;
-    const desiredPosition = new THREE.Vector3(t.x, t.y, t.z).add(offset);
-    
-    state.camera.position.lerp(desiredPosition, 0.1);
-    state.camera.lookAt(t.x, t.y, t.z);
+    window.addEventListener('keydown', onKeyDown);
+    gl.domElement.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    return () => {
+      window.removeEventListener('wheel', onWheel);
+      window.removeEventListener('keydown', onKeyDown);
+      gl.domElement.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+    };
+  }, [gl]);
+
+  useFrame((state, delta) => {
+    const cam = state.camera as THREE.PerspectiveCamera;
+    const p = car.renderPosition.current;
+    const r = car.renderRotation.current;
+    // Car forward is (-sin r, -cos r)
+    const fx = -Math.sin(r);
+    const fz = -Math.cos(r);
+    const m = modeRef.current;
+    const z = zoom.current[m];
+    const d = desired.current;
+    let fov = CAMERA_FOV;
+
+    if (introPlaying) {
+      // Ease in and out of each stop so the camera lingers at every label.
+      // Holds still while paused or behind an overlay, like the physics clock.
+      if (getAppMode() === 'driving') introTime.current += delta;
+      const stop = introTime.current / INTRO_SECONDS_PER_STOP;
+      // Half a stop extra lingers at the last pad. Driving off hands control back early.
+      if (introPath.stops === 0 || stop >= introPath.stops + 0.5 || car.manualInput.current) {
+        finishIntro();
+        return;
+      }
+      const eased = Math.min(Math.floor(stop) + THREE.MathUtils.smootherstep(stop % 1, 0, 1), introPath.stops);
+      const u = eased / introPath.stops;
+      // Keyframe 0 is the overview, so pad i is keyframe i + 1
+      setIntroStep(THREE.MathUtils.clamp(Math.round(stop) - 1, 0, introPath.stops - 1));
+      introPath.positions.getPoint(u, cam.position);
+      introPath.looks.getPoint(u, look.current);
+      cam.lookAt(look.current);
+      if (cam.fov !== CAMERA_FOV) {
+        cam.fov = CAMERA_FOV;
+        cam.updateProjectionMatrix();
+      }
+      return;
+    }
+
+    const speed = car.velocity.current.length();
+    const { parked } = getCameraState();
+    if (parked && speed > MOVING_SPEED) setCameraParked(false);
+    else if (!parked && speed < PARKED_SPEED) setCameraParked(true);
+
+    if (m === 'chase') {
+      d.position.set(p.x - fx * z * 0.85, p.y + 1 + z * 0.4, p.z - fz * z * 0.85);
+      springTo(chase.current.position, chase.current.velocity, d.position, CHASE_STIFFNESS, delta);
+      d.position.copy(chase.current.position);
+      d.look.set(p.x + fx * 3, p.y + 1, p.z + fz * 3);
+    } else if (m === 'cockpit') {
+      // Driver's eye inside the cabin, whose faces are culled from within
+      d.position.set(p.x + fx * 0.3, p.y + 0.65, p.z + fz * 0.3);
+      d.look.set(p.x + fx * 20, p.y + 0.4, p.z + fz * 20);
+      fov = z;
+    } else if (m === 'topDown') {
+      // North-up like the minimap; the small Z offset keeps lookAt's up vector usable
+      d.position.set(p.x, p.y + z, p.z + 0.01);
+      d.look.copy(p);
+    } else {
+      const { yaw, pitch } = orbit.current;
+      d.position.set(
+        p.x + Math.sin(yaw) * Math.cos(pitch) * z,
+        p.y + Math.sin(pitch) * z,
+        p.z + Math.cos(yaw) * Math.cos(pitch) * z
+      );
+      d.look.copy(p);
+    }
+
+    const t = transition.current;
+    if (t.progress < 1) {
+      t.progress = Math.min(t.progress + delta / CAMERA_TRANSITION_SECONDS, 1);
+      const blend = THREE.MathUtils.smootherstep(t.progress, 0, 1);
+      cam.position.lerpVectors(t.position, d.position, blend);
+      look.current.lerpVectors(t.look, d.look, blend);
+      fov = THREE.MathUtils.lerp(t.fov, fov, blend);
+    } else {
+      cam.position.copy(d.position);
+      look.current.copy(d.look);
+    }
+    cam.lookAt(look.current);
+    if (cam.fov !== fov) {
+      cam.fov = fov;
+      cam.updateProjectionMatrix();
+    }
   });
   return null;
 };
 
+// Movement keys in one slot, e.g. "WASD" or "↑←↓→"
+const driveKeys = (bindings: InputBindings, slot: number) =>
+  (['throttle', 'steerLeft', 'brake', 'steerRight'] as const)
+    .map(a => bindings[a][slot])
+    .filter(Boolean)
+    .map(describeKey)
+    .join('');
+
+// Rendered from the live bindings so it follows whatever the visitor rebinds
+const ControlsCard: React.FC = () => {
+  const bindings = useBindings();
+  const drive = [driveKeys(bindings, 0), driveKeys(bindings, 1)].filter(Boolean).join(' / ');
+  const zoom = [bindings.zoomIn[0], bindings.zoomOut[0]].filter(Boolean).map(describeKey).join(' ');
+
+  return (
+    <div className="absolute bottom-8 right-8 pointer-events-none text-right select-none z-10">
+      <div className="bg-white/80 backdrop-blur-md p-4 rounded-xl border border-white/50 shadow-lg">
+        <p className="text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">Controls</p>
+        <div className="text-sm text-slate-600 space-y-1 font-mono">
+          <p>{drive || 'Unbound'} to Drive</p>
+          <p>{describeAction('boost')} to Boost</p>
+          <p>{describeAction('handbrake')} to Drift</p>
+          <p>Scroll{zoom && ` / ${zoom}`} to Zoom</p>
+          <p>{describeAction('reset')} to Reset</p>
+          <p>{describeAction('interact')} to Interact</p>
+          <p>{describeAction('map')} for Map</p>
+          <p>{describeAction('camera')} to Change Camera</p>
+          <p>{describeAction('pause')} to Pause</p>
+          <p>Gamepad: RT/LT Drive • B Drift • A Interact</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Steps auto quality to hold the target frame rate. After a few swings up and
+// down it stops measuring and settles on the lower of the two levels.
+const AutoQuality: React.FC = () => {
+  const lastStep = useRef<1 | -1>(-1);
+  return (
+    <PerformanceMonitor
+      bounds={(refreshRate) => [AUTO_TARGET_FPS, Math.max(refreshRate * 0.95, AUTO_TARGET_FPS + 5)]}
+      flipflops={4}
+      onDecline={() => {
+        if (stepAutoQuality(-1)) lastStep.current = -1;
+      }}
+      onIncline={() => {
+        if (stepAutoQuality(1)) lastStep.current = 1;
+      }}
+      onFallback={() => {
+        if (lastStep.current === 1) stepAutoQuality(-1);
+      }}
+    />
+  );
+};
+
 const World: React.FC<WorldProps> = (props) => {
+  const isTouch = useCoarsePointer();
+  const minimap = useMemo(createMinimapFeed, []);
+  const bindings = useBindings();
+  const quality = useGraphicsQuality();
+  const preset = QUALITY_PRESETS[quality.level];
+  const appMode = useAppMode();
+
+  // Engine, tyres and rain stop with the physics
+  useEffect(() => soundManager.setPaused(appMode !== 'driving'), [appMode]);
+  const [nearby, setNearby] = useState<AppSection | null>(null);
+  const nearbyEntry = props.manifest.sections.find(s => s.id === nearby);
+  const drive = driveKeys(bindings, 0) || driveKeys(bindings, 1);
+
   return (
     <div className="w-full h-screen bg-sky-200">
-      <Canvas shadows camera={{ position: [0, 15, 15], fov: 45 }}>
-        <fog attach="fog" args={['#e0f2fe', 20, 100]} />
-        <SceneContent {...props} />
-        <ContactShadows resolution={1024} scale={120} blur={2} opacity={0.4} far={10} color="#0f172a" />
-      </Canvas>
-      <div className="absolute top-8 left-8 pointer-events-none select-none">
-        <h1 className="text-5xl font-black text-slate-800 tracking-tighter drop-shadow-sm">UDAY</h1>
-        <p className="text-slate-500 font-medium text-lg">Creative Developer Portfolio</p>
+      {/* First in tab order so keyboard and screen reader users reach it before anything else */}
+      <button
+        onClick={() => setDisplayMode('simple')}
+        className="absolute bottom-8 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 px-4 py-2 rounded-xl bg-white/80 backdrop-blur-md border border-white/50 shadow-lg text-sm font-medium text-slate-700 hover:bg-white transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-800"
+      >
+        <FileText className="w-4 h-4" />
+        Skip the 3D
+      </button>
+      <div
+        ref={props.focusRef}
+        tabIndex={0}
+        role="application"
+        aria-label={`3D portfolio world. ${drive || 'Bound keys'} to drive, ${describeAction('interact')} to open the section in range.`}
+        className="w-full h-full focus:outline-none"
+      >
+        <Canvas shadows dpr={Math.min(window.devicePixelRatio || 1, preset.maxDpr)} camera={{ position: [0, 15, 15], fov: 45 }}>
+          <fog attach="fog" args={['#e0f2fe', 20, 100]} />
+          <SceneContent {...props} minimap={minimap} onNearbyChange={setNearby} />
+          {preset.contactShadows > 0 && (
+            <ContactShadows resolution={preset.contactShadows} scale={120} blur={2} opacity={0.4} far={10} color="#0f172a" />
+          )}
+          {quality.mode === 'auto' && <AutoQuality />}
+        </Canvas>
       </div>
-      <div className="absolute bottom-8 right-8 pointer-events-none text-right select-none z-10">
-        <div className="bg-white/80 backdrop-blur-md p-4 rounded-xl border border-white/50 shadow-lg">
-          <p className="text-xs font-bold text-slate-400 mb-2 uppercase tracking-wider">Controls</p>
-          <div className="text-sm text-slate-600 space-y-1 font-mono">
-            <p>WASD / Arrows to Drive</p>
-            <p>SHIFT to Boost</p>
-            <p>Scroll to Zoom</p>
-            <p>ENTER to Interact</p>
-          </div>
-        </div>
+      {/* Screen readers can't see the 3D "Press <interact key>" hint, so announce it here */}
+      <div role="status" aria-live="polite" className="sr-only">
+        {nearbyEntry && !props.isOverlayOpen
+          ? `${nearbyEntry.label} is in range. ${isTouch ? 'Tap Open' : `Press ${describeAction('interact')}`} to open it.`
+          : ''}
+      </div>
+      <div className="absolute top-8 left-8 pointer-events-none select-none">
+        <h1 className="text-5xl font-black text-slate-800 tracking-tighter drop-shadow-sm uppercase">{props.manifest.owner.name}</h1>
+        <p className="text-slate-500 font-medium text-lg">{props.manifest.owner.tagline}</p>
       </div>
+      {!props.isOverlayOpen && <Minimap feed={minimap} sections={props.manifest.sections} />}
+      {isTouch && !props.isOverlayOpen && <TouchControls />}
+      <SettingsPanel />
+      <TimeTrialHud />
+      <PauseMenu />
+      <TourHud sections={props.manifest.sections} activeSection={props.activeSection} onSectionEnter={props.onSectionEnter} />
+      {!isTouch && <ControlsCard />}
     </div>
   );
 };
@@ -0,0 +1,44 @@
+import { useSyncExternalStore } from 'react';
+
+// What the app is doing, which decides whether the world runs and who gets
+// the keyboard:
+//   driving  the world simulates and takes driving input
+//   overlay  a section is open; the world is paused underneath it
+//   paused   the pause menu is open
+// Changes go through dispatch(), which ignores events that don't apply to
+// the current state.
+
+export type AppMode = 'driving' | 'overlay' | 'paused';
+export type AppEvent = 'openOverlay' | 'closeOverlay' | 'pause' | 'resume';
+
+const TRANSITIONS: Record<AppMode, Partial<Record<AppEvent, AppMode>>> = {
+  driving: { openOverlay: 'overlay', pause: 'paused' },
+  overlay: { closeOverlay: 'driving' },
+  // Back/forward can open a section from under the pause menu
+  paused: { resume: 'driving', openOverlay: 'overlay' },
+};
+
+let mode: AppMode = 'driving';
+const listeners = new Set<() => void>();
+
+export const getAppMode = (): AppMode => mode;
+
+export const subscribeAppMode = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useAppMode = (): AppMode => useSyncExternalStore(subscribeAppMode, getAppMode);
+
+/**
+ * Apply `event` if the current state allows it. Returns whether the state changed.
+ */
+export const dispatch = (event: AppEvent): boolean => {
+  const next = TRANSITIONS[mode][event];
+  if (!next || next === mode) return false;
+  mode = next;
+  listeners.forEach(l => l());
+  return true;
+};
@@ -0,0 +1,394 @@
+import { useSyncExternalStore } from 'react';
+
+// Synthesised sound for the 3D world: engine, turbo, tyres, impacts and rain,
+// all generated with Web Audio nodes (no sample files).
+//
+// Everything feeds one of two buses, engine (engine + turbo) and sfx (the
+// rest), which meet at a master gain. Volumes and mute are a persisted
+// setting. The AudioContext is only created from a user gesture and never
+// while muted, since browsers block audio started any other way.
+
+export type AudioBus = 'master' | 'engine' | 'sfx';
+
+export interface AudioSettings {
+  // 0..1 per bus
+  master: number;
+  engine: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const AUDIO_BUSES: { bus: AudioBus; label: string }[] = [
+  { bus: 'master', label: 'Master' },
+  { bus: 'engine', label: 'Engine' },
+  { bus: 'sfx', label: 'Effects' },
+];
+
+const DEFAULT_SETTINGS: AudioSettings = { master: 0.8, engine: 0.7, sfx: 0.8, muted: false };
+const STORAGE_KEY = 'portfolio.audio';
+
+// --- Settings store ---
+
+const loadSettings = (): AudioSettings => {
+  const loaded = { ...DEFAULT_SETTINGS };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      for (const { bus } of AUDIO_BUSES) {
+        if (typeof stored[bus] === 'number') loaded[bus] = Math.min(Math.max(stored[bus], 0), 1);
+      }
+      if (typeof stored.muted === 'boolean') loaded.muted = stored.muted;
+    }
+  } catch {
+    // Corrupt or unavailable storage: fall back to defaults
+  }
+  return loaded;
+};
+
+let settings = loadSettings();
+const listeners = new Set<() => void>();
+
+const commit = (next: AudioSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private mode etc. The choice still applies for this visit.
+  }
+  listeners.forEach(l => l());
+};
+
+export const getAudioSettings = (): AudioSettings => settings;
+
+export const subscribeAudio = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useAudioSettings = (): AudioSettings =>
+  useSyncExternalStore(subscribeAudio, getAudioSettings);
+
+export const setBusVolume = (bus: AudioBus, volume: number) => {
+  commit({ ...settings, [bus]: Math.min(Math.max(volume, 0), 1) });
+};
+
+/**
+ * Mute or unmute. Call from an input handler: unmuting may start audio.
+ */
+export const setMuted = (muted: boolean) => {
+  commit({ ...settings, muted });
+};
+
+// --- Engine model ---
+
+const GEAR_RATIOS = [3.2, 2.1, 1.5, 1.15, 0.9];
+const IDLE_RPM = 900;
+const REDLINE_RPM = 7000;
+const UPSHIFT_RPM = 6200;
+const DOWNSHIFT_RPM = 2800;
+// Engine rpm per unit of road speed at a 1:1 ratio
+const RPM_PER_SPEED = 150;
+// Volume dips briefly while the clutch is in
+const SHIFT_SECONDS = 0.12;
+
+export interface EngineInput {
+  // World units per second
+  speed: number;
+  // -1..1, as the car's controls
+  throttle: number;
+  boost: boolean;
+  // Sideways sliding speed, world units per second
+  slip: number;
+  handbrake: boolean;
+}
+
+// Seconds-based smoothing factor for per-frame values
+const approach = (current: number, target: number, seconds: number, delta: number) =>
+  current + (target - current) * (1 - Math.exp(-delta / seconds));
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+class SoundManager {
+  ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private engineBus: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private noise: AudioBuffer | null = null;
+
+  // Engine: two detuned saws through a lowpass that opens with revs and load
+  private engineOscs: OscillatorNode[] = [];
+  private engineFilter: BiquadFilterNode | null = null;
+  private engineGain: GainNode | null = null;
+  // Turbo: filtered hiss plus a spool whistle
+  private turboFilter: BiquadFilterNode | null = null;
+  private turboGain: GainNode | null = null;
+  private whistle: OscillatorNode | null = null;
+  private whistleGain: GainNode | null = null;
+  // Tyres: noise through two resonant bands
+  private screechGain: GainNode | null = null;
+  private rainGain: GainNode | null = null;
+
+  private gear = 0;
+  private rpm = IDLE_RPM;
+  private shiftTimer = 0;
+  private spool = 0;
+  // Last frame's boost, so the blow-off fires once on release
+  private wasBoosting = false;
+  private screech = 0;
+  // The world is paused (overlay or pause menu open)
+  private paused = false;
+
+  constructor() {
+    subscribeAudio(() => this.applySettings());
+  }
+
+  /**
+   * Start audio. Only does anything from within a user gesture and when unmuted.
+   */
+  init() {
+    if (this.ctx || settings.muted) return;
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx = new AudioContextClass();
+    this.ctx = ctx;
+
+    this.master = ctx.createGain();
+    this.master.connect(ctx.destination);
+    this.engineBus = ctx.createGain();
+    this.engineBus.connect(this.master);
+    this.sfxBus = ctx.createGain();
+    this.sfxBus.connect(this.master);
+    this.applySettings();
+
+    // Two seconds of white noise, shared by every noisy sound
+    this.noise = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+    const samples = this.noise.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+    // Engine
+    this.engineFilter = ctx.createBiquadFilter();
+    this.engineFilter.type = 'lowpass';
+    this.engineFilter.Q.value = 2;
+    this.engineGain = ctx.createGain();
+    this.engineGain.gain.value = 0;
+    this.engineFilter.connect(this.engineGain);
+    this.engineGain.connect(this.engineBus);
+    this.engineOscs = [1, 2.01].map(harmonic => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = (IDLE_RPM / 60) * 2 * harmonic;
+      osc.connect(this.engineFilter!);
+      osc.start();
+      return osc;
+    });
+
+    // Turbo
+    this.turboFilter = ctx.createBiquadFilter();
+    this.turboFilter.type = 'bandpass';
+    this.turboFilter.Q.value = 4;
+    this.turboGain = ctx.createGain();
+    this.turboGain.gain.value = 0;
+    this.loopNoise(this.turboFilter);
+    this.turboFilter.connect(this.turboGain);
+    this.turboGain.connect(this.engineBus);
+    this.whistle = ctx.createOscillator();
+    this.whistle.type = 'sine';
+    this.whistleGain = ctx.createGain();
+    this.whistleGain.gain.value = 0;
+    this.whistle.connect(this.whistleGain);
+    this.whistleGain.connect(this.engineBus);
+    this.whistle.start();
+
+    // Tyres
+    this.screechGain = ctx.createGain();
+    this.screechGain.gain.value = 0;
+    this.screechGain.connect(this.sfxBus);
+    for (const [frequency, q] of [[1400, 9], [2300, 12]]) {
+      const band = ctx.createBiquadFilter();
+      band.type = 'bandpass';
+      band.frequency.value = frequency;
+      band.Q.value = q;
+      this.loopNoise(band);
+      band.connect(this.screechGain);
+    }
+
+    // Rain: band-passed to a soft hiss
+    const rainFilter = ctx.createBiquadFilter();
+    rainFilter.type = 'bandpass';
+    rainFilter.frequency.value = 2500;
+    rainFilter.Q.value = 0.5;
+    this.rainGain = ctx.createGain();
+    this.rainGain.gain.value = 0;
+    this.loopNoise(rainFilter);
+    rainFilter.connect(this.rainGain);
+    this.rainGain.connect(this.sfxBus);
+  }
+
+  private loopNoise(into: AudioNode) {
+    const source = this.ctx!.createBufferSource();
+    source.buffer = this.noise;
+    source.loop = true;
+    // Random start so layered loops don't phase against each other
+    source.start(0, Math.random() * 2);
+    source.connect(into);
+  }
+
+  private applySettings() {
+    // Unmuting comes from a click, so it may start audio for the first time
+    if (!settings.muted) this.init();
+    const ctx = this.ctx;
+    if (!ctx || !this.master || !this.engineBus || !this.sfxBus) return;
+    const now = ctx.currentTime;
+    this.master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.05);
+    this.engineBus.gain.setTargetAtTime(settings.engine, now, 0.05);
+    this.sfxBus.gain.setTargetAtTime(settings.sfx, now, 0.05);
+    if (settings.muted || this.paused) ctx.suspend();
+    else ctx.resume();
+  }
+
+  /**
+   * Silence everything while the world is paused, keeping the volume settings.
+   */
+  setPaused(paused: boolean) {
+    if (paused === this.paused) return;
+    this.paused = paused;
+    if (!this.ctx) return;
+    if (paused) this.ctx.suspend();
+    else if (!settings.muted) this.ctx.resume();
+  }
+
+  private get running(): boolean {
+    if (!this.ctx || settings.muted || this.paused) return false;
+    // A context created during a gesture can still start suspended
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+    return true;
+  }
+
+  /**
+   * Per-frame update of the continuous car sounds.
+   */
+  updateCar(input: EngineInput, delta: number) {
+    if (!this.running || !this.engineGain || !this.engineFilter) return;
+    const now = this.ctx!.currentTime;
+    const load = Math.abs(input.throttle);
+
+    // Automatic gearbox with hysteresis between up- and downshift points
+    const rpmIn = (gear: number) => IDLE_RPM + input.speed * GEAR_RATIOS[gear] * RPM_PER_SPEED;
+    if (this.gear < GEAR_RATIOS.length - 1 && rpmIn(this.gear) > UPSHIFT_RPM) {
+      this.gear++;
+      this.shiftTimer = SHIFT_SECONDS;
+    } else if (this.gear > 0 && rpmIn(this.gear) < DOWNSHIFT_RPM) {
+      this.gear--;
+      this.shiftTimer = SHIFT_SECONDS;
+    }
+    this.shiftTimer = Math.max(this.shiftTimer - delta, 0);
+
+    // Throttle revs the engine a little even when the wheels can't turn (e.g. against a wall)
+    const targetRpm = Math.min(rpmIn(this.gear) + load * 800, REDLINE_RPM);
+    this.rpm = approach(this.rpm, targetRpm, 0.08, delta);
+
+    // Four-stroke four-cylinder: two firing pulses per revolution
+    const firing = (this.rpm / 60) * 2;
+    this.engineOscs[0].frequency.setTargetAtTime(firing, now, 0.03);
+    this.engineOscs[1].frequency.setTargetAtTime(firing * 2.01, now, 0.03);
+    this.engineFilter.frequency.setTargetAtTime(300 + this.rpm * 0.15 + load * 600, now, 0.05);
+
+    // Silent when parked with no throttle, like before; louder under load
+    const running = input.speed > 0.1 || load > 0;
+    const volume = running ? (0.12 + (this.rpm / REDLINE_RPM) * 0.12 + load * 0.06) * (this.shiftTimer > 0 ? 0.35 : 1) : 0;
+    this.engineGain.gain.setTargetAtTime(volume, now, 0.05);
+
+    // Turbo spools up while boosting on throttle and dumps with a pssh when let go
+    const boosting = input.boost && input.throttle > 0;
+    const spool = approach(this.spool, boosting ? 1 : 0, boosting ? 0.5 : 0.15, delta);
+    if (this.wasBoosting && !boosting && this.spool > 0.5) this.playBlowOff(this.spool);
+    this.wasBoosting = boosting;
+    this.spool = spool;
+    this.turboFilter!.frequency.setTargetAtTime(3000 + spool * 3000, now, 0.05);
+    this.turboGain!.gain.setTargetAtTime(spool * 0.08, now, 0.05);
+    this.whistle!.frequency.setTargetAtTime(2000 + spool * 4500, now, 0.05);
+    this.whistleGain!.gain.setTargetAtTime(spool * spool * 0.025, now, 0.05);
+
+    // Tyres squeal once the car slides sideways, or when the handbrake locks them at speed
+    const slide = clamp01((Math.abs(input.slip) - 4) / 10);
+    const locked = input.handbrake && input.speed > 5 ? 0.4 : 0;
+    this.screech = approach(this.screech, Math.max(slide, locked), 0.06, delta);
+    this.screechGain!.gain.setTargetAtTime(this.screech * this.screech * 0.3, now, 0.03);
+  }
+
+  // intensity 0..1, follows the weather's rain amount
+  updateRain(intensity: number) {
+    if (!this.running || !this.rainGain) return;
+    this.rainGain.gain.setTargetAtTime(intensity * 0.12, this.ctx!.currentTime, 0.5);
+  }
+
+  // One-shot noise burst through a filter; returns the filter for sweeping
+  private noiseBurst(type: BiquadFilterType, frequency: number, gain: number, seconds: number) {
+    const ctx = this.ctx!;
+    const now = ctx.currentTime;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise;
+    const filter = ctx.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(gain, now);
+    envelope.gain.exponentialRampToValueAtTime(0.001, now + seconds);
+    source.connect(filter);
+    filter.connect(envelope);
+    envelope.connect(this.sfxBus!);
+    source.start(now, Math.random() * 1.5);
+    source.stop(now + seconds);
+    return filter;
+  }
+
+  // Pitched body of a hit, falling from `from` to `to` Hz, starting `delay` seconds from now
+  private thump(type: OscillatorType, from: number, to: number, gain: number, seconds: number, delay = 0) {
+    const ctx = this.ctx!;
+    const now = ctx.currentTime + delay;
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, now);
+    osc.frequency.exponentialRampToValueAtTime(to, now + seconds);
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(gain, now);
+    envelope.gain.exponentialRampToValueAtTime(0.001, now + seconds);
+    osc.connect(envelope);
+    envelope.connect(this.sfxBus!);
+    osc.start(now);
+    osc.stop(now + seconds);
+  }
+
+  private playBlowOff(strength: number) {
+    if (!this.running) return;
+    const filter = this.noiseBurst('bandpass', 2500, strength * 0.15, 0.35);
+    filter.Q.value = 3;
+    filter.frequency.exponentialRampToValueAtTime(600, this.ctx!.currentTime + 0.35);
+  }
+
+  /**
+   * Car hitting something solid (tree, pad, world edge). strength 0..1
+   */
+  playImpact(strength: number) {
+    if (!this.running) return;
+    const s = clamp01(strength);
+    this.thump('sine', 90 + Math.random() * 20, 40, s * 0.7, 0.3);
+    this.noiseBurst('lowpass', 400, s * 0.5, 0.15);
+  }
+
+  /**
+   * Car smashing a wooden crate: a hollow knock plus a splintery crack. strength 0..1
+   */
+  playCrateHit(strength: number) {
+    if (!this.running) return;
+    const s = clamp01(strength);
+    const pitch = 170 + Math.random() * 90;
+    this.thump('triangle', pitch, pitch * 0.6, s * 0.6, 0.18);
+    this.noiseBurst('highpass', 1500 + Math.random() * 1000, s * 0.4, 0.06);
+    // A second, smaller knock as the crate tumbles
+    if (s > 0.5) this.thump('triangle', pitch * 1.3, pitch, s * 0.3, 0.1, 0.07 + Math.random() * 0.05);
+  }
+}
+
+export const soundManager = new SoundManager();
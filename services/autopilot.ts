@@ -0,0 +1,43 @@
+import { useSyncExternalStore } from 'react';
+import { AppSection } from '../types';
+
+// Requests for the car to drive itself to a section. The UI (minimap) asks for
+// a destination; the Autopilot component in the scene does the driving and
+// clears the request on arrival, failure or when the player takes over.
+
+export interface AutopilotState {
+  // Section being driven to, null when the player is driving
+  target: AppSection | null;
+  // Why the last request ended early, if it did
+  error: string | null;
+}
+
+let state: AutopilotState = { target: null, error: null };
+const listeners = new Set<() => void>();
+
+const update = (next: AutopilotState) => {
+  state = next;
+  listeners.forEach(l => l());
+};
+
+export const getAutopilot = (): AutopilotState => state;
+
+export const subscribeAutopilot = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useAutopilot = (): AutopilotState =>
+  useSyncExternalStore(subscribeAutopilot, getAutopilot);
+
+export const requestAutopilot = (target: AppSection) => update({ target, error: null });
+
+/**
+ * Stop driving. Pass `error` when the destination couldn't be reached.
+ */
+export const cancelAutopilot = (error: string | null = null) => {
+  if (state.target === null && state.error === error) return;
+  update({ target: null, error });
+};
@@ -0,0 +1,88 @@
+import { useSyncExternalStore } from 'react';
+
+// Which camera follows the car. The driving modes are a persisted setting;
+// orbit is a free look around the car that only makes sense while it's parked,
+// so it is never saved and the scene drops back out of it once the car moves.
+
+export type CameraMode = 'chase' | 'cockpit' | 'topDown' | 'orbit';
+
+export const CAMERA_MODES: { mode: CameraMode; label: string }[] = [
+  { mode: 'chase', label: 'Chase' },
+  { mode: 'cockpit', label: 'Cockpit' },
+  { mode: 'topDown', label: 'Top-down' },
+  { mode: 'orbit', label: 'Orbit' },
+];
+
+export interface CameraState {
+  mode: CameraMode;
+  // Mode to return to when leaving orbit
+  driveMode: Exclude<CameraMode, 'orbit'>;
+  // Car is stopped, so orbit is available
+  parked: boolean;
+}
+
+const STORAGE_KEY = 'portfolio.cameraMode';
+
+const loadDriveMode = (): CameraState['driveMode'] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === 'chase' || stored === 'cockpit' || stored === 'topDown') return stored;
+  } catch {
+    // Unavailable storage: default to the chase cam
+  }
+  return 'chase';
+};
+
+let state: CameraState = { mode: loadDriveMode(), driveMode: loadDriveMode(), parked: true };
+const listeners = new Set<() => void>();
+
+const update = (next: CameraState) => {
+  state = next;
+  listeners.forEach(l => l());
+};
+
+export const getCameraState = (): CameraState => state;
+
+export const subscribeCamera = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useCameraState = (): CameraState =>
+  useSyncExternalStore(subscribeCamera, getCameraState);
+
+/**
+ * Switch camera. Orbit is ignored unless the car is parked.
+ */
+export const setCameraMode = (mode: CameraMode) => {
+  if (mode === state.mode || (mode === 'orbit' && !state.parked)) return;
+  if (mode === 'orbit') {
+    update({ ...state, mode });
+    return;
+  }
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Private mode etc. The choice still applies for this visit.
+  }
+  update({ ...state, mode, driveMode: mode });
+};
+
+/**
+ * Step to the next mode, skipping orbit while the car is moving.
+ */
+export const cycleCameraMode = () => {
+  const available = CAMERA_MODES.filter(m => m.mode !== 'orbit' || state.parked);
+  const index = available.findIndex(m => m.mode === state.mode);
+  setCameraMode(available[(index + 1) % available.length].mode);
+};
+
+/**
+ * Called by the scene when the car stops or starts moving. Driving off ends orbit.
+ */
+export const setCameraParked = (parked: boolean) => {
+  if (parked === state.parked) return;
+  update({ ...state, parked, mode: !parked && state.mode === 'orbit' ? state.driveMode : state.mode });
+};
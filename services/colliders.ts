@@ -0,0 +1,164 @@
+import { useEffect } from 'react';
+import * as THREE from 'three';
+import { SpatialHash } from './spatialHash';
+
+// Static collision shapes on the ground plane (XZ). World objects register
+// themselves here and moving bodies (car, crates) are resolved against them
+// each physics tick. Heights are ignored: everything is treated as an
+// infinitely tall column, which is all the top-down driving needs.
+
+export type StaticCollider =
+  | { kind: 'circle'; x: number; z: number; radius: number }
+  | { kind: 'box'; x: number; z: number; halfX: number; halfZ: number; rotation?: number };
+
+export interface CollisionResult {
+  hit: boolean;
+  // Closing speed along the contact normal, for impact effects
+  impactSpeed: number;
+}
+
+const RESTITUTION = 0.4;
+
+// Bounding radius used to place a collider in the spatial hash
+const boundingRadius = (c: StaticCollider): number =>
+  c.kind === 'circle' ? c.radius : Math.hypot(c.halfX, c.halfZ);
+
+export class ColliderWorld {
+  private colliders: StaticCollider[] = [];
+  private hash = new SpatialHash<StaticCollider>(8);
+  // Reused per query so the per-tick path doesn't allocate
+  private candidates: StaticCollider[] = [];
+  private result: CollisionResult = { hit: false, impactSpeed: 0 };
+  // Bumped on every add/remove, so derived data (e.g. nav grids) knows to rebuild
+  version = 0;
+
+  all(): readonly StaticCollider[] {
+    return this.colliders;
+  }
+
+  add(collider: StaticCollider): () => void {
+    return this.addAll([collider]);
+  }
+
+  /**
+   * Register many colliders at once, e.g. a whole forest. Returns one unsubscribe.
+   */
+  addAll(colliders: StaticCollider[]): () => void {
+    for (const c of colliders) {
+      this.colliders.push(c);
+      this.hash.insert(c, c.x, c.z, boundingRadius(c));
+    }
+    this.version++;
+    return () => {
+      const removed = new Set(colliders);
+      this.colliders = this.colliders.filter(c => !removed.has(c));
+      // Removal only happens on unmount, so just rebuild the hash
+      this.hash.clear();
+      for (const c of this.colliders) this.hash.insert(c, c.x, c.z, boundingRadius(c));
+      this.version++;
+    };
+  }
+
+  /**
+   * Push a circle of `radius` at `position` out of every overlapping collider and
+   * bounce `velocity` off the contact normal. Mutates both vectors.
+   */
+  resolveCircle(position: THREE.Vector3, velocity: THREE.Vector3, radius: number): CollisionResult {
+    const result = this.result;
+    result.hit = false;
+    result.impactSpeed = 0;
+
+    for (const c of this.hash.query(position.x, position.z, radius, this.candidates)) {
+      let nx: number;
+      let nz: number;
+      let penetration: number;
+
+      if (c.kind === 'circle') {
+        const dx = position.x - c.x;
+        const dz = position.z - c.z;
+        const minDist = radius + c.radius;
+        // Cheap reject before the square root
+        if (Math.abs(dx) > minDist || Math.abs(dz) > minDist) continue;
+        const distSq = dx * dx + dz * dz;
+        if (distSq >= minDist * minDist) continue;
+        const dist = Math.sqrt(distSq);
+        if (dist > 1e-6) {
+          nx = dx / dist;
+          nz = dz / dist;
+        } else {
+          nx = 1;
+          nz = 0;
+        }
+        penetration = minDist - dist;
+      } else {
+        // Into box space, find the closest point on the box, then back out
+        const rot = c.rotation ?? 0;
+        const cos = Math.cos(rot);
+        const sin = Math.sin(rot);
+        const dx = position.x - c.x;
+        const dz = position.z - c.z;
+        const lx = dx * cos - dz * sin;
+        const lz = dx * sin + dz * cos;
+        const reach = Math.max(c.halfX, c.halfZ) * Math.SQRT2 + radius;
+        if (Math.abs(lx) > reach || Math.abs(lz) > reach) continue;
+
+        const cx = THREE.MathUtils.clamp(lx, -c.halfX, c.halfX);
+        const cz = THREE.MathUtils.clamp(lz, -c.halfZ, c.halfZ);
+        const ox = lx - cx;
+        const oz = lz - cz;
+        const distSq = ox * ox + oz * oz;
+        if (distSq >= radius * radius) continue;
+
+        let localNx: number;
+        let localNz: number;
+        if (distSq > 1e-12) {
+          const dist = Math.sqrt(distSq);
+          localNx = ox / dist;
+          localNz = oz / dist;
+          penetration = radius - dist;
+        } else {
+          // Centre is inside the box: exit through the nearest face
+          const exitX = c.halfX - Math.abs(lx);
+          const exitZ = c.halfZ - Math.abs(lz);
+          if (exitX < exitZ) {
+            localNx = Math.sign(lx) || 1;
+            localNz = 0;
+            penetration = exitX + radius;
+          } else {
+            localNx = 0;
+            localNz = Math.sign(lz) || 1;
+            penetration = exitZ + radius;
+          }
+        }
+        // Rotate the normal back to world space
+        nx = localNx * cos + localNz * sin;
+        nz = -localNx * sin + localNz * cos;
+      }
+
+      position.x += nx * penetration;
+      position.z += nz * penetration;
+
+      const vn = velocity.x * nx + velocity.z * nz;
+      if (vn < 0) {
+        // Reflect the approaching component, keeping the tangential slide
+        velocity.x -= (1 + RESTITUTION) * vn * nx;
+        velocity.z -= (1 + RESTITUTION) * vn * nz;
+        result.impactSpeed = Math.max(result.impactSpeed, -vn);
+      }
+      result.hit = true;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Register a static collider for the lifetime of the calling component.
+ * Pass a memoised collider; a new object re-registers.
+ */
+export const useStaticCollider = (world: ColliderWorld, collider: StaticCollider | null) => {
+  useEffect(() => {
+    if (!collider) return;
+    return world.add(collider);
+  }, [world, collider]);
+};
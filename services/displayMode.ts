@@ -0,0 +1,117 @@
+import { useSyncExternalStore } from 'react';
+
+// Whether the portfolio is shown as the 3D world or as a plain page.
+//
+// The plain page is used when WebGL is missing or has failed, when the 3D view
+// crashed, when the visitor asks the OS for reduced motion, or when they pick
+// it with "Skip the 3D".
+// An explicit choice is persisted and wins over the motion preference, but
+// nothing can bring back the 3D view without WebGL.
+
+export type DisplayMode = '3d' | 'simple';
+
+export type SimpleReason = 'no-webgl' | 'error' | 'reduced-motion' | 'chosen';
+
+export interface DisplayState {
+  mode: DisplayMode;
+  // Why the plain page is shown; null in 3D
+  reason: SimpleReason | null;
+  // False when switching to 3D would only fail again
+  canUse3D: boolean;
+}
+
+const STORAGE_KEY = 'portfolio.displayMode';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const detectWebGL = (): boolean => {
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+    // Free the context straight away; browsers cap how many can be live
+    gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    return gl !== null;
+  } catch {
+    return false;
+  }
+};
+
+const loadPreference = (): DisplayMode | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === '3d' || stored === 'simple') return stored;
+  } catch {
+    // Unavailable storage: follow the detected defaults
+  }
+  return null;
+};
+
+const motionQuery = typeof window.matchMedia === 'function' ? window.matchMedia(REDUCED_MOTION_QUERY) : null;
+
+let webgl = detectWebGL();
+let preference = loadPreference();
+let reducedMotion = motionQuery?.matches ?? false;
+// The 3D view threw for some other reason; a retry might work
+let crashed = false;
+const listeners = new Set<() => void>();
+
+const resolve = (): DisplayState => {
+  if (!webgl) return { mode: 'simple', reason: 'no-webgl', canUse3D: false };
+  if (crashed) return { mode: 'simple', reason: 'error', canUse3D: true };
+  if (preference === 'simple') return { mode: 'simple', reason: 'chosen', canUse3D: true };
+  if (preference === null && reducedMotion) return { mode: 'simple', reason: 'reduced-motion', canUse3D: true };
+  return { mode: '3d', reason: null, canUse3D: true };
+};
+
+let state = resolve();
+
+const refresh = () => {
+  state = resolve();
+  listeners.forEach(l => l());
+};
+
+motionQuery?.addEventListener('change', (e) => {
+  reducedMotion = e.matches;
+  refresh();
+});
+
+export const getDisplayState = (): DisplayState => state;
+
+export const subscribeDisplayState = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useDisplayState = (): DisplayState =>
+  useSyncExternalStore(subscribeDisplayState, getDisplayState);
+
+/**
+ * Remember the visitor's choice between the 3D world and the plain page.
+ */
+export const setDisplayMode = (mode: DisplayMode) => {
+  preference = mode;
+  crashed = false;
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Private mode etc. The choice still applies for this visit.
+  }
+  refresh();
+};
+
+// three.js throws this when the renderer can't get a context
+const isContextError = (error: unknown) =>
+  error instanceof Error && /WebGL context/i.test(error.message);
+
+/**
+ * The 3D view threw. If WebGL itself is the problem, fall back to the plain
+ * page for the rest of the visit; any other error still offers a retry. The
+ * saved choice isn't overwritten either way.
+ */
+export const reportWorldFailure = (error: unknown) => {
+  console.error('3D view failed, showing the plain page instead', error);
+  if (isContextError(error) || !detectWebGL()) webgl = false;
+  else crashed = true;
+  refresh();
+};
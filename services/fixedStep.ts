@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+
+// Fixed-timestep simulation clock.
+//
+// Rendering runs at whatever rate the display refreshes (60Hz, 144Hz, or with
+// hitches), but physics always advances in identical FIXED_DT ticks. Leftover
+// time is carried to the next frame and exposed as `alpha` (0..1) so renderers
+// can interpolate between the previous and current tick.
+
+export const FIXED_DT = 1 / 120;
+
+// Cap on simulated time per frame, so returning to a backgrounded tab doesn't
+// try to catch up on minutes of physics in a single frame
+const MAX_FRAME_TIME = 0.25;
+
+// useFrame priorities. Negative priorities run before the default (0) render
+// callbacks without taking over R3F's render loop.
+export const FRAME_PRIORITY = {
+  // Computer drivers decide their inputs before the player's are sampled
+  autopilot: -4,
+  input: -3,
+  simulate: -2,
+  interpolate: -1,
+} as const;
+
+type StepFn = (dt: number) => void;
+
+export class FixedStepClock {
+  alpha = 0;
+  private accumulator = 0;
+  private steps: { fn: StepFn; order: number }[] = [];
+
+  /**
+   * Register a per-tick callback. Lower `order` runs first within a tick.
+   * Returns an unsubscribe function.
+   */
+  add(fn: StepFn, order = 0): () => void {
+    const entry = { fn, order };
+    this.steps.push(entry);
+    this.steps.sort((a, b) => a.order - b.order);
+    return () => {
+      this.steps = this.steps.filter(s => s !== entry);
+    };
+  }
+
+  /**
+   * Advance by one rendered frame's delta, running as many whole ticks as fit.
+   */
+  advance(delta: number) {
+    this.accumulator += Math.min(delta, MAX_FRAME_TIME);
+    while (this.accumulator >= FIXED_DT) {
+      for (const step of this.steps) step.fn(FIXED_DT);
+      this.accumulator -= FIXED_DT;
+    }
+    this.alpha = this.accumulator / FIXED_DT;
+  }
+}
+
+/**
+ * Register `fn` as a tick callback on `clock` for the lifetime of the component.
+ * The latest `fn` is always called, so it may close over props and state.
+ */
+export const useFixedStep = (clock: FixedStepClock, fn: StepFn, order = 0) => {
+  const fnRef = useRef(fn);
+  fnRef.current = fn;
+  useEffect(() => clock.add(dt => fnRef.current(dt), order), [clock, order]);
+};
+
+/**
+ * Convert a "multiply by `factor` every frame at 60fps" damping constant into
+ * the equivalent factor for a step of `dt` seconds.
+ */
+export const dampingForStep = (factorPer60thSecond: number, dt: number): number =>
+  Math.pow(factorPer60thSecond, dt * 60);
+
+/**
+ * Interpolate an angle along the shortest arc.
+ */
+export const lerpAngle = (from: number, to: number, t: number): number => {
+  const diff = Math.atan2(Math.sin(to - from), Math.cos(to - from));
+  return from + diff * t;
+};
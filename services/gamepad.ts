@@ -0,0 +1,71 @@
+// Gamepad API polling. Browsers only expose live pad state through
+// navigator.getGamepads(), so this is read once per frame by the car controller.
+// Polling also makes hot-plugging free: a newly connected pad simply shows up
+// in the list on the next frame.
+
+import { ControlInput } from '../types';
+
+// "standard" mapping indices, see https://w3c.github.io/gamepad/#remapping
+const BUTTON_A = 0;
+const BUTTON_B = 1;
+const BUTTON_X = 2;
+const BUTTON_Y = 3;
+const BUTTON_RB = 5;
+const TRIGGER_LT = 6;
+const TRIGGER_RT = 7;
+const AXIS_LEFT_X = 0;
+
+const STICK_DEADZONE = 0.15;
+const TRIGGER_DEADZONE = 0.05;
+
+// Rescale so output starts at 0 just outside the deadzone instead of jumping to 0.15
+const applyDeadzone = (value: number, deadzone: number): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude < deadzone) return 0;
+  return Math.sign(value) * Math.min((magnitude - deadzone) / (1 - deadzone), 1);
+};
+
+const isPressed = (pad: Gamepad, index: number): boolean => !!pad.buttons[index]?.pressed;
+
+const getActivePad = (): Gamepad | null => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  // Prefer the first pad with the standard layout, fall back to any connected pad
+  const pads = navigator.getGamepads();
+  let fallback: Gamepad | null = null;
+  for (let i = 0; i < pads.length; i++) {
+    const pad = pads[i];
+    if (!pad || !pad.connected) continue;
+    if (pad.mapping === 'standard') return pad;
+    fallback ??= pad;
+  }
+  return fallback;
+};
+
+// Reused every frame so polling doesn't allocate
+const state: ControlInput = {
+  throttle: 0,
+  brake: 0,
+  steer: 0,
+  boost: false,
+  handbrake: false,
+  reset: false,
+  interact: false,
+};
+
+/**
+ * Read the first connected gamepad. Returns null when none is plugged in.
+ */
+export const readGamepad = (): ControlInput | null => {
+  const pad = getActivePad();
+  if (!pad) return null;
+
+  state.throttle = applyDeadzone(pad.buttons[TRIGGER_RT]?.value ?? 0, TRIGGER_DEADZONE);
+  state.brake = applyDeadzone(pad.buttons[TRIGGER_LT]?.value ?? 0, TRIGGER_DEADZONE);
+  // Stick right is +1, but steering right decreases rotation
+  state.steer = -applyDeadzone(pad.axes[AXIS_LEFT_X] ?? 0, STICK_DEADZONE);
+  state.boost = isPressed(pad, BUTTON_X) || isPressed(pad, BUTTON_RB);
+  state.handbrake = isPressed(pad, BUTTON_B);
+  state.reset = isPressed(pad, BUTTON_Y);
+  state.interact = isPressed(pad, BUTTON_A);
+  return state;
+};
@@ -1,4 +1,4 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, GenerateVideosOperation } from "@google/genai";
 
 // We create instances on demand to ensure the latest API key is used
 const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -20,50 +20,211 @@ export const promptApiKeySelection = async () => {
   }
 };
 
+export type VideoAspectRatio = '16:9' | '9:16';
+export type VideoResolution = '720p' | '1080p';
+
+export interface VeoModel {
+  id: string;
+  label: string;
+  resolutions: VideoResolution[];
+  // Most videos one request may ask for
+  maxVideos: number;
+}
+
+export const VEO_MODELS: VeoModel[] = [
+  { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast', resolutions: ['720p', '1080p'], maxVideos: 1 },
+  { id: 'veo-3.1-generate-preview', label: 'Veo 3.1', resolutions: ['720p', '1080p'], maxVideos: 1 },
+  { id: 'veo-2.0-generate-001', label: 'Veo 2', resolutions: ['720p'], maxVideos: 2 },
+];
+
+export interface VideoGenerationOptions {
+  model: string;
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  negativePrompt: string;
+  numberOfVideos: number;
+}
+
+export const DEFAULT_VIDEO_OPTIONS: VideoGenerationOptions = {
+  model: VEO_MODELS[0].id,
+  aspectRatio: '16:9',
+  resolution: '1080p',
+  negativePrompt: '',
+  numberOfVideos: 1,
+};
+
 /**
- * Generate Video using Veo
+ * Fit `options` to what its model supports: an unknown model falls back to
+ * the default, and resolution and video count are clamped to the model's.
  */
-export const generateVideo = async (
-  imageFile: File, 
-  prompt: string, 
-  aspectRatio: '16:9' | '9:16' = '16:9'
-): Promise<string> => {
+export const normalizeVideoOptions = (options: VideoGenerationOptions): VideoGenerationOptions => {
+  const model = VEO_MODELS.find(m => m.id === options.model) ?? VEO_MODELS[0];
+  return {
+    ...options,
+    model: model.id,
+    resolution: model.resolutions.includes(options.resolution) ? options.resolution : model.resolutions[model.resolutions.length - 1],
+    numberOfVideos: Math.max(1, Math.min(Math.round(options.numberOfVideos), model.maxVideos)),
+  };
+};
+
+/**
+ * Thrown when a Veo job doesn't produce a video. `reason` says why:
+ * the operation reported an error, it ran past its timeout, it was
+ * cancelled, or it finished without a video.
+ */
+export class VideoGenerationError extends Error {
+  reason: 'failed' | 'timeout' | 'cancelled' | 'no-video';
+
+  constructor(reason: VideoGenerationError['reason'], message: string) {
+    super(message);
+    this.name = 'VideoGenerationError';
+    this.reason = reason;
+  }
+}
+
+// Poll quickly at first, then back off; Veo usually takes a minute or more
+const POLL_INITIAL_MS = 5000;
+const POLL_MAX_MS = 30000;
+const POLL_BACKOFF = 1.5;
+
+export const DEFAULT_VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface VideoPollOptions {
+  signal?: AbortSignal;
+  // Give up once this long has passed since `startedAt`
+  timeoutMs?: number;
+  startedAt?: number;
+  // Called after every status check
+  onPoll?: (operation: GenerateVideosOperation) => void;
+}
+
+const cancelled = () => new VideoGenerationError('cancelled', 'Video generation was cancelled');
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelled();
+};
+
+// setTimeout that rejects as soon as `signal` aborts
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Submit a Veo job, animating `imageFile` or, without one, from the prompt
+ * alone. Resolves with the pending operation, whose `name` can be stored to
+ * pick the job up again later.
+ */
+export const startVideoGeneration = async (
+  imageFile: File | null,
+  prompt: string,
+  options: VideoGenerationOptions = DEFAULT_VIDEO_OPTIONS,
+  signal?: AbortSignal
+): Promise<GenerateVideosOperation> => {
+  if (!imageFile && !prompt.trim()) throw new Error("Describe the video or upload an image to animate");
   const ai = getAI();
-  const base64Image = await fileToBase64(imageFile);
-  
-  // Clean base64 string
-  const data = base64Image.split(',')[1];
-  const mimeType = imageFile.type;
+  const { model, aspectRatio, resolution, negativePrompt, numberOfVideos } = normalizeVideoOptions(options);
+  const hasResolutionChoice = VEO_MODELS.find(m => m.id === model)!.resolutions.length > 1;
 
-  let operation = await ai.models.generateVideos({
-    model: 'veo-3.1-fast-generate-preview',
+  let image: { imageBytes: string; mimeType: string } | undefined;
+  if (imageFile) {
+    const base64Image = await fileToBase64(imageFile);
+    throwIfAborted(signal);
+    // Clean base64 string
+    image = { imageBytes: base64Image.split(',')[1], mimeType: imageFile.type };
+  }
+
+  return ai.models.generateVideos({
+    model,
     prompt: prompt || "Animate this image cinematographically", 
-    image: {
-      imageBytes: data,
-      mimeType: mimeType,
-    },
+    image,
     config: {
-      numberOfVideos: 1,
-      resolution: '1080p',
-      aspectRatio: aspectRatio
+      numberOfVideos,
+      // Models with a single resolution don't take the parameter
+      resolution: hasResolutionChoice ? resolution : undefined,
+      aspectRatio,
+      negativePrompt: negativePrompt.trim() || undefined,
+      abortSignal: signal
     }
   });
+};
+
+/**
+ * Rebuild a pending operation from its name, e.g. one saved before a reload.
+ */
+export const videoOperationFromName = (name: string): GenerateVideosOperation =>
+  Object.assign(new GenerateVideosOperation(), { name });
+
+/**
+ * Poll `operation` with backoff until it's done. Rejects with a
+ * VideoGenerationError if it reports an error, runs out of time or is aborted.
+ * Aborting only stops the polling; the job itself carries on server side.
+ */
+export const waitForVideoOperation = async (
+  operation: GenerateVideosOperation,
+  { signal, timeoutMs = DEFAULT_VIDEO_TIMEOUT_MS, startedAt = Date.now(), onPoll }: VideoPollOptions = {}
+): Promise<GenerateVideosOperation> => {
+  const ai = getAI();
+  let delay = POLL_INITIAL_MS;
 
-  // Polling loop
   while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 10000));
-    operation = await ai.operations.getVideosOperation({ operation: operation });
+    const remaining = startedAt + timeoutMs - Date.now();
+    if (remaining <= 0) {
+      throw new VideoGenerationError('timeout', `Video generation timed out after ${Math.round(timeoutMs / 60000)} minutes`);
+    }
+    await wait(Math.min(delay, remaining), signal);
+    delay = Math.min(delay * POLL_BACKOFF, POLL_MAX_MS);
+    operation = await ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+    onPoll?.(operation);
+  }
+
+  if (operation.error) {
+    const message = typeof operation.error.message === 'string' ? operation.error.message : JSON.stringify(operation.error);
+    throw new VideoGenerationError('failed', message);
   }
+  return operation;
+};
+
+/**
+ * Download every video the finished operation produced and return an
+ * object URL for each.
+ */
+export const downloadVideos = async (operation: GenerateVideosOperation, signal?: AbortSignal): Promise<string[]> => {
+  const videoUris = (operation.response?.generatedVideos ?? [])
+    .map(v => v.video?.uri)
+    .filter((uri): uri is string => !!uri);
+  if (videoUris.length === 0) throw new VideoGenerationError('no-video', "No video URI returned");
 
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) throw new Error("No video URI returned");
+  // Fetch the actual video blobs
+  const blobs = await Promise.all(videoUris.map(async uri => {
+    const response = await fetch(`${uri}&key=${process.env.API_KEY}`, { signal });
+    if (!response.ok) throw new Error("Failed to download video");
+    return response.blob();
+  }));
+  return blobs.map(blob => URL.createObjectURL(blob));
+};
 
-  // Fetch the actual video blob
-  const response = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
-  if (!response.ok) throw new Error("Failed to download video");
-  
-  const blob = await response.blob();
-  return URL.createObjectURL(blob);
+/**
+ * Generate videos using Veo: submit, wait for it, download it.
+ */
+export const generateVideo = async (
+  imageFile: File | null, 
+  prompt: string, 
+  options: VideoGenerationOptions = DEFAULT_VIDEO_OPTIONS,
+  pollOptions: VideoPollOptions = {}
+): Promise<string[]> => {
+  const operation = await startVideoGeneration(imageFile, prompt, options, pollOptions.signal);
+  const finished = await waitForVideoOperation(operation, pollOptions);
+  return downloadVideos(finished, pollOptions.signal);
 };
 
 /**
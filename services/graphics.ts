@@ -0,0 +1,108 @@
+import { useSyncExternalStore } from 'react';
+
+// Rendering quality for the 3D world. The visitor picks a fixed level or
+// "auto", which starts at High and is stepped down (or back up) by the scene's
+// frame-rate monitor to hold AUTO_TARGET_FPS.
+
+export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra';
+export type QualityMode = 'auto' | QualityLevel;
+
+export interface QualityPreset {
+  // Sun shadows on at all, and their map resolution
+  shadows: boolean;
+  shadowMapSize: number;
+  // Car headlight casts its own shadows
+  lampShadows: boolean;
+  // Soft ground shadow resolution; 0 leaves it out
+  contactShadows: number;
+  stars: number;
+  // Cap on the device pixel ratio. Below 1 renders under native resolution.
+  maxDpr: number;
+}
+
+// Lowest to highest, the order auto mode steps through
+export const QUALITY_LEVELS: { level: QualityLevel; label: string }[] = [
+  { level: 'low', label: 'Low' },
+  { level: 'medium', label: 'Medium' },
+  { level: 'high', label: 'High' },
+  { level: 'ultra', label: 'Ultra' },
+];
+
+export const QUALITY_MODES: { mode: QualityMode; label: string }[] = [
+  { mode: 'auto', label: 'Auto' },
+  ...QUALITY_LEVELS.map(({ level, label }) => ({ mode: level, label })),
+];
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  low: { shadows: false, shadowMapSize: 512, lampShadows: false, contactShadows: 0, stars: 1000, maxDpr: 0.75 },
+  medium: { shadows: true, shadowMapSize: 1024, lampShadows: false, contactShadows: 256, stars: 2500, maxDpr: 1 },
+  // The original settings
+  high: { shadows: true, shadowMapSize: 2048, lampShadows: true, contactShadows: 1024, stars: 5000, maxDpr: 1.5 },
+  ultra: { shadows: true, shadowMapSize: 4096, lampShadows: true, contactShadows: 2048, stars: 8000, maxDpr: 2 },
+};
+
+// Auto mode steps down when the frame rate stays below this
+export const AUTO_TARGET_FPS = 50;
+
+const STORAGE_KEY = 'portfolio.graphics';
+
+export interface GraphicsQuality {
+  mode: QualityMode;
+  // Level in effect: the chosen one, or auto's current pick
+  level: QualityLevel;
+}
+
+// --- Store ---
+
+const loadMode = (): QualityMode => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (QUALITY_MODES.some(m => m.mode === stored)) return stored as QualityMode;
+  } catch {
+    // Unavailable storage: default to auto
+  }
+  return 'auto';
+};
+
+let autoLevel: QualityLevel = 'high';
+let quality: GraphicsQuality = { mode: loadMode(), level: 'high' };
+const listeners = new Set<() => void>();
+
+const update = (mode: QualityMode) => {
+  quality = { mode, level: mode === 'auto' ? autoLevel : mode };
+  listeners.forEach(l => l());
+};
+update(quality.mode);
+
+export const getGraphicsQuality = (): GraphicsQuality => quality;
+
+export const subscribeGraphics = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useGraphicsQuality = (): GraphicsQuality =>
+  useSyncExternalStore(subscribeGraphics, getGraphicsQuality);
+
+export const setQualityMode = (mode: QualityMode) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // Private mode etc. The choice still applies for this visit.
+  }
+  update(mode);
+};
+
+/**
+ * Auto mode only: move one level up (1) or down (-1). Returns false at either end.
+ */
+export const stepAutoQuality = (direction: 1 | -1): boolean => {
+  if (quality.mode !== 'auto') return false;
+  const index = QUALITY_LEVELS.findIndex(l => l.level === autoLevel) + direction;
+  if (index < 0 || index >= QUALITY_LEVELS.length) return false;
+  autoLevel = QUALITY_LEVELS[index].level;
+  update('auto');
+  return true;
+};
@@ -0,0 +1,201 @@
+import { useSyncExternalStore } from 'react';
+
+// Named actions the world responds to. Keyboard codes are mapped onto these so
+// nothing else in the app needs to know about physical keys.
+export type InputAction =
+  | 'throttle'
+  | 'brake'
+  | 'steerLeft'
+  | 'steerRight'
+  | 'boost'
+  | 'handbrake'
+  | 'reset'
+  | 'interact'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'map'
+  | 'camera'
+  | 'pause';
+
+export type InputBindings = Record<InputAction, string[]>;
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'throttle', label: 'Accelerate' },
+  { action: 'brake', label: 'Brake / Reverse' },
+  { action: 'steerLeft', label: 'Steer Left' },
+  { action: 'steerRight', label: 'Steer Right' },
+  { action: 'boost', label: 'Boost' },
+  { action: 'handbrake', label: 'Handbrake / Drift' },
+  { action: 'reset', label: 'Reset Car' },
+  { action: 'interact', label: 'Interact' },
+  { action: 'zoomIn', label: 'Zoom In' },
+  { action: 'zoomOut', label: 'Zoom Out' },
+  { action: 'map', label: 'Full Map' },
+  { action: 'camera', label: 'Camera View' },
+  { action: 'pause', label: 'Pause' },
+];
+
+// Each action holds up to this many keys (primary + alternate)
+export const MAX_KEYS_PER_ACTION = 2;
+
+// KeyboardEvent.code values are physical positions, so WASD stays in the same
+// place on AZERTY (where it reads ZQSD) and Dvorak.
+export const DEFAULT_BINDINGS: InputBindings = {
+  throttle: ['KeyW', 'ArrowUp'],
+  brake: ['KeyS', 'ArrowDown'],
+  steerLeft: ['KeyA', 'ArrowLeft'],
+  steerRight: ['KeyD', 'ArrowRight'],
+  boost: ['ShiftLeft', 'ShiftRight'],
+  handbrake: ['Space'],
+  reset: ['KeyR'],
+  interact: ['Enter', 'NumpadEnter'],
+  zoomIn: ['Equal', 'NumpadAdd'],
+  zoomOut: ['Minus', 'NumpadSubtract'],
+  map: ['KeyM'],
+  camera: ['KeyC'],
+  pause: ['KeyP'],
+};
+
+const STORAGE_KEY = 'portfolio.inputBindings';
+
+// --- Store ---
+
+const cloneBindings = (b: InputBindings): InputBindings =>
+  Object.fromEntries(Object.entries(b).map(([k, v]) => [k, [...v]])) as InputBindings;
+
+const loadBindings = (): InputBindings => {
+  const bindings = cloneBindings(DEFAULT_BINDINGS);
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      // Merge per action so newly added actions keep their defaults
+      for (const { action } of INPUT_ACTIONS) {
+        const keys = stored[action];
+        if (Array.isArray(keys) && keys.every(k => typeof k === 'string')) {
+          bindings[action] = keys.slice(0, MAX_KEYS_PER_ACTION);
+        }
+      }
+    }
+  } catch {
+    // Corrupt or unavailable storage: fall back to defaults
+  }
+  return bindings;
+};
+
+let bindings: InputBindings = loadBindings();
+const listeners = new Set<() => void>();
+
+const commit = (next: InputBindings) => {
+  bindings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch {
+    // Private mode etc. Bindings still apply for this visit.
+  }
+  listeners.forEach(l => l());
+};
+
+export const getBindings = (): InputBindings => bindings;
+
+export const subscribeBindings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Bind `code` to `action` in the given slot. A key can only drive one action,
+ * so it is removed from wherever it was bound before.
+ */
+export const setBinding = (action: InputAction, slot: number, code: string) => {
+  const next = cloneBindings(bindings);
+  for (const { action: other } of INPUT_ACTIONS) {
+    next[other] = next[other].filter(k => k !== code);
+  }
+  const keys = next[action];
+  keys.splice(Math.min(slot, keys.length), slot < keys.length ? 1 : 0, code);
+  next[action] = keys.slice(0, MAX_KEYS_PER_ACTION);
+  commit(next);
+};
+
+export const clearBinding = (action: InputAction, slot: number) => {
+  const next = cloneBindings(bindings);
+  next[action].splice(slot, 1);
+  commit(next);
+};
+
+export const resetBindings = () => commit(cloneBindings(DEFAULT_BINDINGS));
+
+export const useBindings = (): InputBindings =>
+  useSyncExternalStore(subscribeBindings, getBindings);
+
+// --- Queries ---
+
+export const isActionCode = (action: InputAction, code: string): boolean =>
+  bindings[action].includes(code);
+
+export const isActionDown = (action: InputAction, pressed: Record<string, boolean>): boolean =>
+  bindings[action].some(code => pressed[code]);
+
+/**
+ * True for keys typed into a text box, slider, select or editable element.
+ * World shortcuts ignore those so typing a prompt doesn't drive the car.
+ */
+export const isFormField = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT');
+
+// --- Display ---
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ShiftLeft: 'L-Shift',
+  ShiftRight: 'R-Shift',
+  ControlLeft: 'L-Ctrl',
+  ControlRight: 'R-Ctrl',
+  AltLeft: 'L-Alt',
+  AltRight: 'R-Alt',
+  Space: 'Space',
+  Enter: 'Enter',
+  NumpadEnter: 'Num Enter',
+  NumpadAdd: 'Num +',
+  NumpadSubtract: 'Num -',
+  Backspace: 'Backspace',
+  Tab: 'Tab',
+  Equal: '=',
+  Minus: '-',
+};
+
+// Layout-aware labels (e.g. "Z" for KeyW on AZERTY) where the Keyboard API exists
+// Not in the DOM typings yet; only the part used here
+type KeyboardLayoutApi = { getLayoutMap?(): Promise<Map<string, string>> };
+
+let layoutMap: Map<string, string> | null = null;
+const keyboardApi = typeof navigator !== 'undefined'
+  ? (navigator as Navigator & { keyboard?: KeyboardLayoutApi }).keyboard
+  : undefined;
+keyboardApi?.getLayoutMap?.()
+  .then(map => {
+    layoutMap = map;
+    // Trigger a re-render of anything showing key names
+    bindings = cloneBindings(bindings);
+    listeners.forEach(l => l());
+  })
+  .catch(() => {});
+
+export const describeKey = (code: string): string => {
+  // The layout map only covers writing keys, so it never shadows arrows/modifiers
+  const fromLayout = layoutMap?.get(code);
+  if (fromLayout) return fromLayout.toUpperCase();
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+};
+
+export const describeAction = (action: InputAction): string =>
+  bindings[action].map(describeKey).join(' / ') || 'Unbound';
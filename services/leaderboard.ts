@@ -0,0 +1,65 @@
+// Local top-10 leaderboard for the crate smash time trial, kept in localStorage.
+
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  // Seconds into the run when the last crate was knocked, tie-breaker (lower wins)
+  time: number;
+  date: string;
+}
+
+const STORAGE_KEY = 'portfolio.crateLeaderboard';
+export const LEADERBOARD_SIZE = 10;
+
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.time - b.time;
+
+const isEntry = (e: unknown): e is LeaderboardEntry => {
+  if (typeof e !== 'object' || e === null) return false;
+  const entry = e as Record<string, unknown>;
+  return typeof entry.name === 'string' && typeof entry.score === 'number'
+    && typeof entry.time === 'number' && typeof entry.date === 'string';
+};
+
+export const loadLeaderboard = (): LeaderboardEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(isEntry).sort(byRank).slice(0, LEADERBOARD_SIZE) : [];
+  } catch {
+    return [];
+  }
+};
+
+const save = (entries: LeaderboardEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled: the run just isn't remembered
+  }
+};
+
+/**
+ * Would this result make the board?
+ */
+export const qualifies = (score: number, time: number): boolean => {
+  if (score <= 0) return false;
+  const board = loadLeaderboard();
+  if (board.length < LEADERBOARD_SIZE) return true;
+  return byRank({ name: '', score, time, date: '' }, board[board.length - 1]) < 0;
+};
+
+/**
+ * Insert a result and return the updated board plus the new entry's rank (0-based, -1 if it didn't place).
+ */
+export const submitScore = (name: string, score: number, time: number): { board: LeaderboardEntry[]; rank: number } => {
+  const entry: LeaderboardEntry = {
+    name: name.trim().slice(0, 16) || 'Anonymous',
+    score,
+    time,
+    date: new Date().toISOString(),
+  };
+  const board = [...loadLeaderboard(), entry].sort(byRank).slice(0, LEADERBOARD_SIZE);
+  save(board);
+  return { board, rank: board.indexOf(entry) };
+};
+
+export const clearLeaderboard = () => save([]);
@@ -0,0 +1,262 @@
+import { StaticCollider } from './colliders';
+
+// Grid path planning over the ground plane, around static colliders.
+//
+// The play area is rasterised once into blocked/free cells (colliders grown by
+// the traveller's clearance), then A* runs on the grid and the result is
+// string-pulled into a few straight legs.
+
+export interface NavPoint {
+  x: number;
+  z: number;
+}
+
+// Octile distance weights
+const STRAIGHT = 1;
+const DIAGONAL = Math.SQRT2;
+
+const NEIGHBOURS: [number, number, number][] = [
+  [1, 0, STRAIGHT], [-1, 0, STRAIGHT], [0, 1, STRAIGHT], [0, -1, STRAIGHT],
+  [1, 1, DIAGONAL], [1, -1, DIAGONAL], [-1, 1, DIAGONAL], [-1, -1, DIAGONAL],
+];
+
+// Distance from a point to the collider's surface (negative inside)
+const distanceTo = (c: StaticCollider, x: number, z: number): number => {
+  if (c.kind === 'circle') return Math.hypot(x - c.x, z - c.z) - c.radius;
+  const rot = c.rotation ?? 0;
+  const cos = Math.cos(rot);
+  const sin = Math.sin(rot);
+  const dx = x - c.x;
+  const dz = z - c.z;
+  const lx = Math.abs(dx * cos - dz * sin) - c.halfX;
+  const lz = Math.abs(dx * sin + dz * cos) - c.halfZ;
+  return Math.hypot(Math.max(lx, 0), Math.max(lz, 0)) + Math.min(Math.max(lx, lz), 0);
+};
+
+const reach = (c: StaticCollider) => (c.kind === 'circle' ? c.radius : Math.hypot(c.halfX, c.halfZ));
+
+/**
+ * Binary min-heap of cells with the key they were pushed with. A cell whose
+ * estimate improves is pushed again; the stale entry is skipped when popped.
+ */
+class CellHeap {
+  private cells: number[] = [];
+  private keys: number[] = [];
+
+  get size() {
+    return this.cells.length;
+  }
+
+  clear() {
+    this.cells.length = 0;
+    this.keys.length = 0;
+  }
+
+  push(cell: number, key: number) {
+    const { cells, keys } = this;
+    let i = cells.length;
+    cells.push(cell);
+    keys.push(key);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (keys[parent] <= key) break;
+      cells[i] = cells[parent];
+      keys[i] = keys[parent];
+      i = parent;
+    }
+    cells[i] = cell;
+    keys[i] = key;
+  }
+
+  // Key of the entry pop() would return
+  peekKey(): number {
+    return this.keys[0];
+  }
+
+  pop(): number {
+    const { cells, keys } = this;
+    const top = cells[0];
+    const lastCell = cells.pop()!;
+    const lastKey = keys.pop()!;
+    if (cells.length > 0) {
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        if (left >= cells.length) break;
+        const right = left + 1;
+        const child = right < cells.length && keys[right] < keys[left] ? right : left;
+        if (keys[child] >= lastKey) break;
+        cells[i] = cells[child];
+        keys[i] = keys[child];
+        i = child;
+      }
+      cells[i] = lastCell;
+      keys[i] = lastKey;
+    }
+    return top;
+  }
+}
+
+export class NavGrid {
+  readonly size: number;
+  private blocked: Uint8Array;
+  // A* scratch, reused between searches
+  private cost: Float32Array;
+  private estimate: Float32Array;
+  private cameFrom: Int32Array;
+  private visited: Uint32Array;
+  private searchId = 0;
+  private open = new CellHeap();
+
+  /**
+   * Covers the square -bound..bound on both axes.
+   */
+  constructor(private bound: number, private cellSize: number) {
+    this.size = Math.ceil((bound * 2) / cellSize);
+    const cells = this.size * this.size;
+    this.blocked = new Uint8Array(cells);
+    this.cost = new Float32Array(cells);
+    this.estimate = new Float32Array(cells);
+    this.cameFrom = new Int32Array(cells);
+    this.visited = new Uint32Array(cells);
+  }
+
+  /**
+   * Mark every cell whose centre is within `clearance` of a collider as blocked.
+   */
+  rebuild(colliders: readonly StaticCollider[], clearance: number) {
+    this.blocked.fill(0);
+    for (const c of colliders) {
+      const r = reach(c) + clearance;
+      const [minX, minZ] = this.cellOf(c.x - r, c.z - r);
+      const [maxX, maxZ] = this.cellOf(c.x + r, c.z + r);
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        for (let cx = minX; cx <= maxX; cx++) {
+          const { x, z } = this.centre(cx, cz);
+          if (distanceTo(c, x, z) < clearance) this.blocked[cz * this.size + cx] = 1;
+        }
+      }
+    }
+  }
+
+  /**
+   * Shortest route from `from` to `to`, as a list of waypoints starting at
+   * `from`. Blocked endpoints snap to the nearest free cell. Null if unreachable.
+   */
+  findPath(from: NavPoint, to: NavPoint): NavPoint[] | null {
+    const start = this.nearestFree(...this.cellOf(from.x, from.z));
+    const goal = this.nearestFree(...this.cellOf(to.x, to.z));
+    if (start < 0 || goal < 0) return null;
+
+    const size = this.size;
+    const id = ++this.searchId;
+    const gx = goal % size;
+    const gz = Math.floor(goal / size);
+    const heuristic = (cell: number) => {
+      const dx = Math.abs((cell % size) - gx);
+      const dz = Math.abs(Math.floor(cell / size) - gz);
+      return Math.max(dx, dz) + (DIAGONAL - 1) * Math.min(dx, dz);
+    };
+
+    const open = this.open;
+    open.clear();
+    this.visited[start] = id;
+    this.cost[start] = 0;
+    this.estimate[start] = heuristic(start);
+    this.cameFrom[start] = -1;
+    open.push(start, this.estimate[start]);
+
+    let found = false;
+    while (open.size > 0) {
+      const key = open.peekKey();
+      const cell = open.pop();
+      // Superseded by a cheaper push of the same cell
+      if (key > this.estimate[cell]) continue;
+      if (cell === goal) {
+        found = true;
+        break;
+      }
+      const cx = cell % size;
+      const cz = Math.floor(cell / size);
+      for (const [dx, dz, step] of NEIGHBOURS) {
+        const nx = cx + dx;
+        const nz = cz + dz;
+        if (nx < 0 || nz < 0 || nx >= size || nz >= size) continue;
+        const next = nz * size + nx;
+        if (this.blocked[next]) continue;
+        // No cutting corners between two blocked cells
+        if (dx !== 0 && dz !== 0 && (this.blocked[cz * size + nx] || this.blocked[nz * size + cx])) continue;
+        const cost = this.cost[cell] + step;
+        if (this.visited[next] === id && cost >= this.cost[next]) continue;
+        this.visited[next] = id;
+        this.cost[next] = cost;
+        this.estimate[next] = cost + heuristic(next);
+        this.cameFrom[next] = cell;
+        open.push(next, this.estimate[next]);
+      }
+    }
+    if (!found) return null;
+
+    const cells: number[] = [];
+    for (let cell = goal; cell !== -1; cell = this.cameFrom[cell]) cells.push(cell);
+    cells.reverse();
+
+    // String-pull: from each kept point, skip ahead to the furthest visible cell
+    const path: NavPoint[] = [{ x: from.x, z: from.z }];
+    let i = 0;
+    while (i < cells.length - 1) {
+      let j = cells.length - 1;
+      const a = path[path.length - 1];
+      while (j > i + 1 && !this.clearLine(a, this.centreOf(cells[j]))) j--;
+      path.push(this.centreOf(cells[j]));
+      i = j;
+    }
+    return path;
+  }
+
+  /**
+   * True if a straight line between the points only crosses free cells.
+   */
+  clearLine(a: NavPoint, b: NavPoint): boolean {
+    const steps = Math.ceil(Math.hypot(b.x - a.x, b.z - a.z) / (this.cellSize * 0.5));
+    for (let s = 1; s < steps; s++) {
+      const t = s / steps;
+      const [cx, cz] = this.cellOf(a.x + (b.x - a.x) * t, a.z + (b.z - a.z) * t);
+      if (this.blocked[cz * this.size + cx]) return false;
+    }
+    return true;
+  }
+
+  private cellOf(x: number, z: number): [number, number] {
+    const clamp = (v: number) => Math.min(Math.max(Math.floor((v + this.bound) / this.cellSize), 0), this.size - 1);
+    return [clamp(x), clamp(z)];
+  }
+
+  private centre(cx: number, cz: number): NavPoint {
+    return {
+      x: -this.bound + (cx + 0.5) * this.cellSize,
+      z: -this.bound + (cz + 0.5) * this.cellSize,
+    };
+  }
+
+  private centreOf(cell: number): NavPoint {
+    return this.centre(cell % this.size, Math.floor(cell / this.size));
+  }
+
+  // Search outwards in square rings for the closest free cell
+  private nearestFree(cx: number, cz: number): number {
+    const size = this.size;
+    for (let ring = 0; ring < size; ring++) {
+      for (let dz = -ring; dz <= ring; dz++) {
+        for (let dx = -ring; dx <= ring; dx++) {
+          if (Math.max(Math.abs(dx), Math.abs(dz)) !== ring) continue;
+          const x = cx + dx;
+          const z = cz + dz;
+          if (x < 0 || z < 0 || x >= size || z >= size) continue;
+          if (!this.blocked[z * size + x]) return z * size + x;
+        }
+      }
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,189 @@
+import rawManifest from '../portfolio.json';
+import { AppSection, PortfolioManifest, SectionEntry, SkillEntry, ContactLink, Vec3Tuple } from '../types';
+
+/**
+ * Thrown when portfolio.json does not match the manifest schema.
+ * `issues` holds one human readable line per problem, prefixed with the JSON path.
+ */
+export class ManifestValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid portfolio manifest:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'ManifestValidationError';
+    this.issues = issues;
+  }
+}
+
+// --- Schema helpers ---
+// Each helper records a problem under `path` and returns a fallback so that
+// validation keeps going and reports every issue in one pass.
+
+type Issues = string[];
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const readString = (obj: Record<string, unknown>, key: string, path: string, issues: Issues, optional = false): string => {
+  const value = obj[key];
+  if (value === undefined && optional) return '';
+  if (typeof value !== 'string' || value.trim() === '') {
+    issues.push(`${path}.${key}: expected a non-empty string, got ${JSON.stringify(value)}`);
+    return '';
+  }
+  return value;
+};
+
+const readObject = (obj: Record<string, unknown>, key: string, path: string, issues: Issues): Record<string, unknown> => {
+  const value = obj[key];
+  if (!isObject(value)) {
+    issues.push(`${path}.${key}: expected an object`);
+    return {};
+  }
+  return value;
+};
+
+const readArray = (obj: Record<string, unknown>, key: string, path: string, issues: Issues): unknown[] => {
+  const value = obj[key];
+  if (!Array.isArray(value)) {
+    issues.push(`${path}.${key}: expected an array`);
+    return [];
+  }
+  return value;
+};
+
+const HEX_COLOR = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+const LINK_SCHEMES = /^(https?:\/\/|mailto:|tel:)/;
+const SECTION_IDS: AppSection[] = Object.values(AppSection).filter(s => s !== AppSection.HOME);
+
+// --- Section validators ---
+
+const validateSection = (value: unknown, path: string, issues: Issues): SectionEntry | null => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+
+  const id = value.id as AppSection;
+  if (!SECTION_IDS.includes(id)) {
+    issues.push(`${path}.id: expected one of ${SECTION_IDS.join(', ')}, got ${JSON.stringify(value.id)}`);
+  }
+
+  const color = readString(value, 'color', path, issues);
+  if (color && !HEX_COLOR.test(color)) {
+    issues.push(`${path}.color: expected a hex colour like "#6366f1", got "${color}"`);
+  }
+
+  const position = value.position;
+  const isTuple = Array.isArray(position)
+    && position.length === 3
+    && position.every(n => typeof n === 'number' && Number.isFinite(n));
+  if (!isTuple) {
+    issues.push(`${path}.position: expected [x, y, z] numbers, got ${JSON.stringify(position)}`);
+  } else if (Math.abs(position[0]) > 90 || Math.abs(position[2]) > 90) {
+    issues.push(`${path}.position: x and z must stay within the ±90 drivable area`);
+  }
+
+  const subtext = readString(value, 'subtext', path, issues, true);
+
+  return {
+    id,
+    label: readString(value, 'label', path, issues),
+    subtext: subtext || undefined,
+    color,
+    position: (isTuple ? position : [0, 0, 0]) as Vec3Tuple,
+  };
+};
+
+const validateSkill = (value: unknown, path: string, issues: Issues): SkillEntry | null => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+  const level = value.level;
+  if (typeof level !== 'number' || level < 0 || level > 100) {
+    issues.push(`${path}.level: expected a number between 0 and 100, got ${JSON.stringify(level)}`);
+  }
+  return { name: readString(value, 'name', path, issues), level: Number(level) || 0 };
+};
+
+const validateLink = (value: unknown, path: string, issues: Issues): ContactLink | null => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+  const href = readString(value, 'href', path, issues);
+  if (href && !LINK_SCHEMES.test(href)) {
+    issues.push(`${path}.href: expected an http(s), mailto: or tel: link, got "${href}"`);
+  }
+  return { label: readString(value, 'label', path, issues), href, primary: value.primary === true };
+};
+
+/**
+ * Validate an untrusted manifest object. Throws ManifestValidationError listing
+ * every problem found, otherwise returns the typed manifest.
+ */
+export const parsePortfolioManifest = (raw: unknown): PortfolioManifest => {
+  const issues: Issues = [];
+  const root = isObject(raw) ? raw : (issues.push('manifest: expected a JSON object'), {});
+
+  const owner = readObject(root, 'owner', 'manifest', issues);
+
+  const sections = readArray(root, 'sections', 'manifest', issues)
+    .map((s, i) => validateSection(s, `sections[${i}]`, issues))
+    .filter((s): s is SectionEntry => s !== null);
+
+  const seen = new Set<AppSection>();
+  sections.forEach((s, i) => {
+    if (seen.has(s.id)) issues.push(`sections[${i}].id: duplicate section "${s.id}"`);
+    seen.add(s.id);
+  });
+
+  const about = readObject(root, 'about', 'manifest', issues);
+  const paragraphs = readArray(about, 'paragraphs', 'about', issues);
+  paragraphs.forEach((p, i) => {
+    if (typeof p !== 'string') issues.push(`about.paragraphs[${i}]: expected a string`);
+  });
+
+  const skills = readObject(root, 'skills', 'manifest', issues);
+  const skillItems = readArray(skills, 'items', 'skills', issues)
+    .map((s, i) => validateSkill(s, `skills.items[${i}]`, issues))
+    .filter((s): s is SkillEntry => s !== null);
+
+  const contact = readObject(root, 'contact', 'manifest', issues);
+  const links = readArray(contact, 'links', 'contact', issues)
+    .map((l, i) => validateLink(l, `contact.links[${i}]`, issues))
+    .filter((l): l is ContactLink => l !== null);
+
+  const manifest: PortfolioManifest = {
+    owner: {
+      name: readString(owner, 'name', 'owner', issues),
+      tagline: readString(owner, 'tagline', 'owner', issues),
+    },
+    sections,
+    about: {
+      title: readString(about, 'title', 'about', issues),
+      subtitle: readString(about, 'subtitle', 'about', issues),
+      paragraphs: paragraphs.filter((p): p is string => typeof p === 'string'),
+      photoUrl: readString(about, 'photoUrl', 'about', issues, true) || undefined,
+    },
+    skills: {
+      title: readString(skills, 'title', 'skills', issues),
+      subtitle: readString(skills, 'subtitle', 'skills', issues),
+      items: skillItems,
+    },
+    contact: {
+      title: readString(contact, 'title', 'contact', issues),
+      body: readString(contact, 'body', 'contact', issues),
+      links,
+    },
+  };
+
+  if (issues.length > 0) throw new ManifestValidationError(issues);
+  return manifest;
+};
+
+/**
+ * Load and validate the bundled portfolio.json.
+ */
+export const loadPortfolioManifest = (): PortfolioManifest => parsePortfolioManifest(rawManifest);
@@ -0,0 +1,297 @@
+import { useSyncExternalStore } from 'react';
+import { FIXED_DT } from './fixedStep';
+
+// Ghost replays for the crate smash time trial.
+//
+// The car is sampled once per physics tick. Each sample is quantised to three
+// int16s (x and z in centimetres, heading in 1/10000 rad) plus one braking
+// bit, so a full 60 second run is ~45KB before base64. Files are plain JSON
+// with the binary parts base64 encoded, little-endian.
+
+export const REPLAY_FORMAT = 'crate-smash-replay';
+export const REPLAY_VERSION = 1;
+
+const POSITION_SCALE = 100;
+const ROTATION_SCALE = 10000;
+const TICK_RATE = Math.round(1 / FIXED_DT);
+
+export interface Replay {
+  // Ticks per second the replay was recorded at
+  tickRate: number;
+  frameCount: number;
+  // [x, z, rotation] per frame, quantised
+  frames: Int16Array;
+  // One byte per frame, 1 = brake lights on
+  braking: Uint8Array;
+  score: number;
+  // Run time of the last crate hit, for ranking against other runs
+  time: number;
+  name: string;
+  date: string;
+}
+
+/**
+ * Thrown when an imported file isn't a replay this version can play.
+ */
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+// --- Recording ---
+
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+/**
+ * Append-only tick recorder. Buffers are sized up front for a full run, so
+ * recording from the physics tick doesn't allocate.
+ */
+export class ReplayRecorder {
+  private frames: Int16Array;
+  private braking: Uint8Array;
+  private count = 0;
+
+  constructor(expectedSeconds: number) {
+    const capacity = Math.ceil(expectedSeconds * TICK_RATE) + TICK_RATE;
+    this.frames = new Int16Array(capacity * 3);
+    this.braking = new Uint8Array(capacity);
+  }
+
+  record(x: number, z: number, rotation: number, isBraking: boolean) {
+    if (this.count === this.braking.length) this.grow();
+    const i = this.count * 3;
+    this.frames[i] = Math.round(x * POSITION_SCALE);
+    this.frames[i + 1] = Math.round(z * POSITION_SCALE);
+    this.frames[i + 2] = Math.round(wrapAngle(rotation) * ROTATION_SCALE);
+    this.braking[this.count] = isBraking ? 1 : 0;
+    this.count++;
+  }
+
+  finish(meta: { score: number; time: number; name?: string }): Replay {
+    return {
+      tickRate: TICK_RATE,
+      frameCount: this.count,
+      frames: this.frames.slice(0, this.count * 3),
+      braking: this.braking.slice(0, this.count),
+      score: meta.score,
+      time: meta.time,
+      name: meta.name ?? '',
+      date: new Date().toISOString(),
+    };
+  }
+
+  private grow() {
+    const frames = new Int16Array(this.frames.length * 2);
+    frames.set(this.frames);
+    this.frames = frames;
+    const braking = new Uint8Array(this.braking.length * 2);
+    braking.set(this.braking);
+    this.braking = braking;
+  }
+}
+
+// --- Playback ---
+
+export interface ReplaySample {
+  x: number;
+  z: number;
+  rotation: number;
+  isBraking: boolean;
+}
+
+/**
+ * Read the car state at `tick + alpha`, interpolating between frames. Holds the
+ * last frame once the replay has ended. Writes into `out`.
+ */
+export const sampleReplay = (replay: Replay, tick: number, alpha: number, out: ReplaySample): ReplaySample => {
+  const last = replay.frameCount - 1;
+  if (last < 0) return out;
+  const a = Math.min(Math.max(tick, 0), last);
+  const b = Math.min(a + 1, last);
+  const t = b === a ? 0 : alpha;
+  const f = replay.frames;
+  out.x = (f[a * 3] + (f[b * 3] - f[a * 3]) * t) / POSITION_SCALE;
+  out.z = (f[a * 3 + 1] + (f[b * 3 + 1] - f[a * 3 + 1]) * t) / POSITION_SCALE;
+  const ra = f[a * 3 + 2] / ROTATION_SCALE;
+  const rb = f[b * 3 + 2] / ROTATION_SCALE;
+  out.rotation = ra + wrapAngle(rb - ra) * t;
+  out.isBraking = replay.braking[a] === 1;
+  return out;
+};
+
+// --- Serialisation ---
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const serializeReplay = (replay: Replay): string => {
+  const frameBytes = new DataView(new ArrayBuffer(replay.frames.length * 2));
+  replay.frames.forEach((v, i) => frameBytes.setInt16(i * 2, v, true));
+  // Braking packed eight frames per byte
+  const bits = new Uint8Array(Math.ceil(replay.frameCount / 8));
+  replay.braking.forEach((v, i) => {
+    if (v) bits[i >> 3] |= 1 << (i & 7);
+  });
+  return JSON.stringify({
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    tickRate: replay.tickRate,
+    frameCount: replay.frameCount,
+    score: replay.score,
+    time: replay.time,
+    name: replay.name,
+    date: replay.date,
+    frames: toBase64(new Uint8Array(frameBytes.buffer)),
+    braking: toBase64(bits),
+  });
+};
+
+/**
+ * Parse a replay file. Throws ReplayFormatError if it can't be played back.
+ */
+export const parseReplay = (text: string): Replay => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError('Not a replay file (invalid JSON)');
+  }
+  if (typeof parsed !== 'object' || parsed === null) throw new ReplayFormatError('Not a crate smash replay file');
+  const raw = parsed as Record<string, unknown>;
+  if (raw.format !== REPLAY_FORMAT) throw new ReplayFormatError('Not a crate smash replay file');
+  if (raw.version !== REPLAY_VERSION) throw new ReplayFormatError(`Unsupported replay version ${raw.version}`);
+  // Playback steps one frame per physics tick, so the rates have to match
+  if (raw.tickRate !== TICK_RATE) throw new ReplayFormatError(`Replay was recorded at ${raw.tickRate} ticks/s, expected ${TICK_RATE}`);
+  const frameCount = raw.frameCount;
+  if (typeof frameCount !== 'number' || !Number.isInteger(frameCount) || frameCount <= 0) throw new ReplayFormatError('Replay has no frames');
+  if (typeof raw.score !== 'number' || typeof raw.time !== 'number') throw new ReplayFormatError('Replay is missing its score');
+
+  let frameBytes: Uint8Array;
+  let bits: Uint8Array;
+  try {
+    frameBytes = fromBase64(String(raw.frames));
+    bits = fromBase64(String(raw.braking));
+  } catch {
+    throw new ReplayFormatError('Replay data is corrupt');
+  }
+  if (frameBytes.length !== frameCount * 6 || bits.length !== Math.ceil(frameCount / 8)) {
+    throw new ReplayFormatError('Replay data is truncated');
+  }
+
+  const view = new DataView(frameBytes.buffer);
+  const frames = new Int16Array(frameCount * 3);
+  for (let i = 0; i < frames.length; i++) frames[i] = view.getInt16(i * 2, true);
+  const braking = new Uint8Array(frameCount);
+  for (let i = 0; i < frameCount; i++) braking[i] = (bits[i >> 3] >> (i & 7)) & 1;
+
+  return {
+    tickRate: TICK_RATE,
+    frameCount,
+    frames,
+    braking,
+    score: raw.score,
+    time: raw.time,
+    name: typeof raw.name === 'string' ? raw.name.slice(0, 16) : '',
+    date: typeof raw.date === 'string' ? raw.date : '',
+  };
+};
+
+/**
+ * Save a replay as a .json download.
+ */
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `crate-smash-${replay.score}-crates.json`;
+  link.click();
+  // Some browsers start the download asynchronously, so don't pull the blob from under it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Ghost store ---
+// The replay the ghost car drives: the visitor's best run, or one they imported.
+
+const STORAGE_KEY = 'portfolio.ghostReplay';
+
+const isBetter = (a: Replay, b: Replay) => a.score > b.score || (a.score === b.score && a.time < b.time);
+
+const loadGhost = (): Replay | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseReplay(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+let ghost: Replay | null = loadGhost();
+// The run that most recently became the ghost, so it can be named afterwards
+let latestRun: Replay | null = null;
+const listeners = new Set<() => void>();
+
+const commit = (next: Replay | null) => {
+  ghost = next;
+  try {
+    if (next) localStorage.setItem(STORAGE_KEY, serializeReplay(next));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage full or disabled: the ghost lasts for this visit only
+  }
+  listeners.forEach(l => l());
+};
+
+export const getGhostReplay = (): Replay | null => ghost;
+
+export const subscribeGhostReplay = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useGhostReplay = (): Replay | null =>
+  useSyncExternalStore(subscribeGhostReplay, getGhostReplay);
+
+/**
+ * Keep `replay` as the ghost if it beats the current one. Returns whether it did.
+ */
+export const offerReplay = (replay: Replay): boolean => {
+  if (replay.score <= 0 || (ghost && !isBetter(replay, ghost))) return false;
+  latestRun = replay;
+  commit(replay);
+  return true;
+};
+
+/**
+ * Attach the leaderboard name to the run that just became the ghost, if it still is.
+ */
+export const nameLatestRun = (name: string) => {
+  if (!ghost || ghost !== latestRun) return;
+  commit({ ...ghost, name: name.trim().slice(0, 16) });
+  latestRun = ghost;
+};
+
+/**
+ * Race against someone else's run. Replaces the ghost even if it's slower.
+ */
+export const importReplay = async (file: File): Promise<Replay> => {
+  const replay = parseReplay(await file.text());
+  commit(replay);
+  return replay;
+};
+
+export const clearGhostReplay = () => commit(null);
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppSection } from '../types';
+
+// Hash routes, e.g. https://example.com/#/veo-studio
+const SECTION_SLUGS: Record<AppSection, string> = {
+  [AppSection.HOME]: '',
+  [AppSection.VEO_STUDIO]: 'veo-studio',
+  [AppSection.IMAGE_EDITOR]: 'image-editor',
+  [AppSection.CONTACT]: 'contact',
+  [AppSection.ABOUT]: 'about',
+  [AppSection.SKILLS]: 'skills',
+};
+
+// Marker stored in history.state on entries we pushed on top of a HOME entry,
+// so closing an overlay can pop back instead of adding another entry.
+interface RouteState {
+  section: AppSection;
+  overHome: boolean;
+}
+
+export const sectionToHash = (section: AppSection): string => {
+  const slug = SECTION_SLUGS[section];
+  return slug ? `#/${slug}` : '';
+};
+
+// HOME drops the hash entirely so the landing URL stays clean
+const urlFor = (section: AppSection): string =>
+  `${window.location.pathname}${window.location.search}${sectionToHash(section)}`;
+
+export const sectionFromHash = (hash: string): AppSection => {
+  const slug = hash.replace(/^#\/?/, '').toLowerCase();
+  const match = (Object.keys(SECTION_SLUGS) as AppSection[]).find(s => SECTION_SLUGS[s] === slug);
+  return match ?? AppSection.HOME;
+};
+
+const readRouteState = (): RouteState | null => {
+  const state = window.history.state as RouteState | null;
+  return state && typeof state.section === 'string' ? state : null;
+};
+
+/**
+ * Keeps the active section in sync with the URL hash and browser history.
+ * Opening a section pushes an entry, closing pops it, so Back closes the overlay.
+ */
+export const useSectionRoute = (): {
+  section: AppSection;
+  openSection: (section: AppSection) => void;
+  closeSection: () => void;
+} => {
+  const [section, setSection] = useState<AppSection>(() => sectionFromHash(window.location.hash));
+
+  useEffect(() => {
+    // Deep link on load: slot a HOME entry underneath so Back closes the overlay instead of leaving the site
+    const initial = sectionFromHash(window.location.hash);
+    if (initial !== AppSection.HOME && !readRouteState()) {
+      window.history.replaceState({ section: AppSection.HOME, overHome: false }, '', urlFor(AppSection.HOME));
+      window.history.pushState({ section: initial, overHome: true }, '', urlFor(initial));
+    }
+
+    const onPopState = () => setSection(sectionFromHash(window.location.hash));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const openSection = useCallback((next: AppSection) => {
+    if (next === AppSection.HOME) return;
+    const current = readRouteState();
+    if (current && current.section !== AppSection.HOME) {
+      // Switching between overlays replaces the entry rather than stacking them
+      window.history.replaceState({ section: next, overHome: current.overHome }, '', urlFor(next));
+    } else {
+      window.history.pushState({ section: next, overHome: true }, '', urlFor(next));
+    }
+    setSection(next);
+  }, []);
+
+  const closeSection = useCallback(() => {
+    if (readRouteState()?.overHome) {
+      // popstate handler updates the section
+      window.history.back();
+      return;
+    }
+    window.history.replaceState({ section: AppSection.HOME, overHome: false }, '', urlFor(AppSection.HOME));
+    setSection(AppSection.HOME);
+  }, []);
+
+  return { section, openSection, closeSection };
+};
@@ -0,0 +1,77 @@
+// Uniform grid over the XZ plane for broad-phase collision queries.
+//
+// Buckets are kept between rebuilds and only truncated on clear(), so a hash
+// that is cleared and refilled every physics tick doesn't allocate once warm.
+
+export class SpatialHash<T> {
+  private buckets = new Map<number, T[]>();
+  private usedKeys: number[] = [];
+  private stamp = new Map<T, number>();
+  private queryId = 0;
+
+  constructor(private cellSize: number) {}
+
+  // Packs two signed 16-bit cell coordinates into one integer key
+  private key(cx: number, cz: number): number {
+    return ((cx & 0xffff) << 16) | (cz & 0xffff);
+  }
+
+  private cell(v: number): number {
+    return Math.floor(v / this.cellSize);
+  }
+
+  clear() {
+    for (const k of this.usedKeys) this.buckets.get(k)!.length = 0;
+    this.usedKeys.length = 0;
+    // Otherwise stamps for items that are never reinserted pile up
+    this.stamp.clear();
+  }
+
+  /**
+   * Insert `item` into every cell its bounding circle touches.
+   */
+  insert(item: T, x: number, z: number, radius: number) {
+    const minX = this.cell(x - radius);
+    const maxX = this.cell(x + radius);
+    const minZ = this.cell(z - radius);
+    const maxZ = this.cell(z + radius);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        const k = this.key(cx, cz);
+        let bucket = this.buckets.get(k);
+        if (!bucket) {
+          bucket = [];
+          this.buckets.set(k, bucket);
+        }
+        if (bucket.length === 0) this.usedKeys.push(k);
+        bucket.push(item);
+      }
+    }
+  }
+
+  /**
+   * Collect items whose cells overlap the circle into `out` (cleared first).
+   * Each item appears once even if it spans several cells. Callers still need
+   * a narrow-phase test.
+   */
+  query(x: number, z: number, radius: number, out: T[]): T[] {
+    out.length = 0;
+    const id = ++this.queryId;
+    const minX = this.cell(x - radius);
+    const maxX = this.cell(x + radius);
+    const minZ = this.cell(z - radius);
+    const maxZ = this.cell(z + radius);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        const bucket = this.buckets.get(this.key(cx, cz));
+        if (!bucket) continue;
+        for (const item of bucket) {
+          if (this.stamp.get(item) === id) continue;
+          this.stamp.set(item, id);
+          out.push(item);
+        }
+      }
+    }
+    return out;
+  }
+}
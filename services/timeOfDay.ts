@@ -0,0 +1,211 @@
+import { useSyncExternalStore } from 'react';
+import * as THREE from 'three';
+
+// Time of day for the 3D world.
+//
+// Settings (mode + manual hour) live in a small persisted store for the
+// settings panel. The hour itself changes continuously, so it isn't React
+// state: the scene calls advanceTimeOfDay() once per frame and reads the
+// resulting `lighting` object, which is mutated in place.
+
+export type TimeOfDayMode = 'cycle' | 'local' | 'manual';
+
+export interface TimeOfDaySettings {
+  mode: TimeOfDayMode;
+  // Hour used in manual mode, 0..24
+  hour: number;
+}
+
+// Real seconds for one full in-world day in cycle mode
+export const DAY_LENGTH_SECONDS = 8 * 60;
+
+export const LIGHTING_PRESETS: { label: string; hour: number }[] = [
+  { label: 'Dawn', hour: 6.5 },
+  { label: 'Noon', hour: 12 },
+  { label: 'Dusk', hour: 19 },
+  { label: 'Night', hour: 0 },
+];
+
+const STORAGE_KEY = 'portfolio.timeOfDay';
+
+// --- Settings store ---
+
+const loadSettings = (): TimeOfDaySettings => {
+  const settings: TimeOfDaySettings = { mode: 'cycle', hour: 10 };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && ['cycle', 'local', 'manual'].includes(stored.mode)) settings.mode = stored.mode;
+    if (stored && typeof stored.hour === 'number' && stored.hour >= 0 && stored.hour < 24) settings.hour = stored.hour;
+  } catch {
+    // Corrupt or unavailable storage: fall back to the default cycle
+  }
+  return settings;
+};
+
+let settings = loadSettings();
+// Where cycle mode is in the day; starts from the saved hour
+let cycleHour = settings.hour;
+const listeners = new Set<() => void>();
+
+const commit = (next: TimeOfDaySettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Private mode etc. The choice still applies for this visit.
+  }
+  listeners.forEach(l => l());
+};
+
+export const getTimeOfDaySettings = (): TimeOfDaySettings => settings;
+
+export const subscribeTimeOfDay = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useTimeOfDaySettings = (): TimeOfDaySettings =>
+  useSyncExternalStore(subscribeTimeOfDay, getTimeOfDaySettings);
+
+const localHour = () => {
+  const now = new Date();
+  return now.getHours() + now.getMinutes() / 60 + now.getSeconds() / 3600;
+};
+
+/**
+ * The hour currently shown in the world, 0..24.
+ */
+export const getCurrentHour = (): number => {
+  if (settings.mode === 'manual') return settings.hour;
+  if (settings.mode === 'local') return localHour();
+  return cycleHour;
+};
+
+/**
+ * Switch mode, carrying the current hour over so the sky doesn't jump.
+ */
+export const setTimeOfDayMode = (mode: TimeOfDayMode) => {
+  const hour = getCurrentHour();
+  cycleHour = hour;
+  commit({ mode, hour });
+};
+
+/**
+ * Pin the world to `hour` (switches to manual mode).
+ */
+export const setManualHour = (hour: number) => {
+  commit({ mode: 'manual', hour: ((hour % 24) + 24) % 24 });
+};
+
+// --- Lighting ---
+
+export interface LightingState {
+  hour: number;
+  sunIntensity: number;
+  sunColor: THREE.Color;
+  // Direction the sun (or moon, at night) shines from, unnormalised
+  sunPosition: THREE.Vector3;
+  ambientIntensity: number;
+  skyColor: THREE.Color;
+  fogColor: THREE.Color;
+  environmentIntensity: number;
+  // 0 = no stars, 1 = full night sky
+  stars: number;
+  // 0 = lamps off (daylight), 1 = full night brightness
+  lamps: number;
+}
+
+interface LightingKey {
+  hour: number;
+  sunIntensity: number;
+  sunColor: string;
+  ambientIntensity: number;
+  skyColor: string;
+  fogColor: string;
+  environmentIntensity: number;
+  stars: number;
+  lamps: number;
+}
+
+const NIGHT = { sunIntensity: 0.25, sunColor: '#8aa4ff', ambientIntensity: 0.15, skyColor: '#0b1026', fogColor: '#0b1026', environmentIntensity: 0.15, stars: 1, lamps: 1 };
+const DAWN = { sunIntensity: 1.0, sunColor: '#ffb47a', ambientIntensity: 0.45, skyColor: '#fbc8a8', fogColor: '#fde2cf', environmentIntensity: 0.6, stars: 0.2, lamps: 0.6 };
+// The original daytime look
+const DAY = { sunIntensity: 1.8, sunColor: '#ffffff', ambientIntensity: 0.7, skyColor: '#bae6fd', fogColor: '#e0f2fe', environmentIntensity: 1, stars: 0, lamps: 0 };
+const DUSK = { sunIntensity: 0.9, sunColor: '#ff8a5c', ambientIntensity: 0.4, skyColor: '#f4a78f', fogColor: '#fbd5c5', environmentIntensity: 0.5, stars: 0.3, lamps: 0.7 };
+
+// Sorted by hour and wrapping at both ends
+const KEYS: LightingKey[] = [
+  { hour: 0, ...NIGHT },
+  { hour: 5, ...NIGHT },
+  { hour: 6.5, ...DAWN },
+  { hour: 9, ...DAY },
+  { hour: 17, ...DAY },
+  { hour: 19, ...DUSK },
+  { hour: 20.5, ...NIGHT },
+  { hour: 24, ...NIGHT },
+];
+
+const keyColors = KEYS.map(k => ({
+  sun: new THREE.Color(k.sunColor),
+  sky: new THREE.Color(k.skyColor),
+  fog: new THREE.Color(k.fogColor),
+}));
+
+// Shared by everything that reacts to the time of day; updated in place
+export const lighting: LightingState = {
+  hour: 0,
+  sunIntensity: 0,
+  sunColor: new THREE.Color(),
+  sunPosition: new THREE.Vector3(),
+  ambientIntensity: 0,
+  skyColor: new THREE.Color(),
+  fogColor: new THREE.Color(),
+  environmentIntensity: 1,
+  stars: 0,
+  lamps: 0,
+};
+
+const sampleLighting = (hour: number) => {
+  let i = 0;
+  while (i < KEYS.length - 2 && KEYS[i + 1].hour <= hour) i++;
+  const a = KEYS[i];
+  const b = KEYS[i + 1];
+  const t = THREE.MathUtils.smoothstep(hour, a.hour, b.hour);
+  const mix = (from: number, to: number) => from + (to - from) * t;
+
+  lighting.hour = hour;
+  lighting.sunIntensity = mix(a.sunIntensity, b.sunIntensity);
+  lighting.ambientIntensity = mix(a.ambientIntensity, b.ambientIntensity);
+  lighting.environmentIntensity = mix(a.environmentIntensity, b.environmentIntensity);
+  lighting.stars = mix(a.stars, b.stars);
+  lighting.lamps = mix(a.lamps, b.lamps);
+  lighting.sunColor.lerpColors(keyColors[i].sun, keyColors[i + 1].sun, t);
+  lighting.skyColor.lerpColors(keyColors[i].sky, keyColors[i + 1].sky, t);
+  lighting.fogColor.lerpColors(keyColors[i].fog, keyColors[i + 1].fog, t);
+
+  // Sun rises in +X at 06:00 and sets in -X at 18:00. At night the moon takes
+  // the opposite arc, so there is always a light above the horizon.
+  const arc = ((hour - 6) / 12) * Math.PI;
+  const above = Math.sin(arc) >= 0 ? arc : arc - Math.PI;
+  lighting.sunPosition.set(Math.cos(above) * 60, 20 + Math.sin(above) * 50, 20);
+};
+
+/**
+ * Move the clock forward by one rendered frame and refresh `lighting`.
+ */
+export const advanceTimeOfDay = (delta: number): LightingState => {
+  if (settings.mode === 'cycle') {
+    cycleHour = (cycleHour + (delta / DAY_LENGTH_SECONDS) * 24) % 24;
+  }
+  sampleLighting(getCurrentHour());
+  return lighting;
+};
+
+export const formatHour = (hour: number): string => {
+  const minutes = Math.floor(hour * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+sampleLighting(getCurrentHour());
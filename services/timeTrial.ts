@@ -0,0 +1,107 @@
+import { useSyncExternalStore } from 'react';
+
+// State machine for the crate smash time trial. The 3D scene drives it from
+// the physics clock; the DOM HUD reads it through useTimeTrial().
+//
+//   idle --(car crosses start line)--> countdown --> running --> finished
+//     ^                                                            |
+//     +------------------------- reset() --------------------------+
+
+export type TimeTrialPhase = 'idle' | 'countdown' | 'running' | 'finished';
+
+export interface TimeTrialState {
+  phase: TimeTrialPhase;
+  // Seconds left in the current phase (countdown or run)
+  remaining: number;
+  score: number;
+  totalCrates: number;
+  // Run time at which the score last went up
+  lastScoreTime: number;
+  // Bumped by reset(), so the scene knows to restore the crate layout
+  round: number;
+}
+
+export const COUNTDOWN_SECONDS = 3;
+export const RUN_SECONDS = 60;
+
+let state: TimeTrialState = {
+  phase: 'idle',
+  remaining: 0,
+  score: 0,
+  totalCrates: 0,
+  lastScoreTime: 0,
+  round: 0,
+};
+
+// Exact time left. state.remaining only catches up when the HUD would show a
+// change, so subscribers aren't notified every tick.
+let remaining = 0;
+
+const listeners = new Set<() => void>();
+
+const update = (patch: Partial<TimeTrialState>) => {
+  state = { ...state, ...patch };
+  if (patch.remaining !== undefined) remaining = patch.remaining;
+  listeners.forEach(l => l());
+};
+
+export const getTimeTrial = (): TimeTrialState => state;
+
+export const subscribeTimeTrial = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useTimeTrial = (): TimeTrialState =>
+  useSyncExternalStore(subscribeTimeTrial, getTimeTrial);
+
+export const startCountdown = (totalCrates: number) => {
+  if (state.phase !== 'idle') return;
+  update({ phase: 'countdown', remaining: COUNTDOWN_SECONDS, score: 0, totalCrates, lastScoreTime: 0 });
+};
+
+/**
+ * Advance timers by one physics tick. `score` is the current number of crates
+ * off their spawn spot.
+ */
+export const tickTimeTrial = (dt: number, score: number) => {
+  if (state.phase === 'countdown') {
+    const next = remaining - dt;
+    if (next <= 0) {
+      update({ phase: 'running', remaining: RUN_SECONDS });
+    } else if (Math.ceil(next) !== Math.ceil(state.remaining)) {
+      // Only notify on whole-second changes, the HUD shows 3-2-1
+      update({ remaining: next });
+    } else {
+      remaining = next;
+    }
+    return;
+  }
+
+  if (state.phase !== 'running') return;
+
+  const next = Math.max(remaining - dt, 0);
+  const patch: Partial<TimeTrialState> = { remaining: next };
+  if (score > state.score) {
+    patch.score = score;
+    patch.lastScoreTime = RUN_SECONDS - next;
+  }
+  if (next === 0 || score >= state.totalCrates) {
+    patch.phase = 'finished';
+  }
+  // The HUD shows tenths, so skip re-renders for sub-tenth changes
+  if (patch.phase || patch.score !== undefined || Math.floor(next * 10) !== Math.floor(state.remaining * 10)) {
+    update(patch);
+  } else {
+    remaining = next;
+  }
+};
+
+/**
+ * Leave the results screen (or abort a run) and put the crates back.
+ */
+export const resetTimeTrial = () => {
+  update({ phase: 'idle', remaining: 0, score: 0, lastScoreTime: 0, round: state.round + 1 });
+};
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { ControlInput } from '../types';
+
+// Written by the on-screen TouchControls (DOM, outside the Canvas) and read
+// each frame by the car controller, alongside the keyboard and gamepad.
+const touchState: ControlInput = {
+  throttle: 0,
+  brake: 0,
+  steer: 0,
+  boost: false,
+  handbrake: false,
+  reset: false,
+  interact: false,
+};
+
+let touchActive = false;
+
+export const setTouchJoystick = (x: number, y: number) => {
+  touchActive = true;
+  // Stick up (negative y) drives forward, stick down reverses
+  touchState.throttle = Math.max(-y, 0);
+  touchState.brake = Math.max(y, 0);
+  touchState.steer = -x;
+};
+
+export const setTouchButton = (button: 'boost' | 'handbrake' | 'interact', pressed: boolean) => {
+  touchActive = true;
+  touchState[button] = pressed;
+};
+
+/**
+ * Current touch input, or null until the visitor has touched a control.
+ */
+export const readTouch = (): ControlInput | null => (touchActive ? touchState : null);
+
+const COARSE_POINTER = '(pointer: coarse)';
+
+/**
+ * True on phones/tablets, where the on-screen controls should be shown.
+ */
+export const useCoarsePointer = (): boolean => {
+  const [coarse, setCoarse] = useState(() =>
+    typeof window !== 'undefined' && !!window.matchMedia?.(COARSE_POINTER).matches
+  );
+
+  useEffect(() => {
+    if (!window.matchMedia) return;
+    const query = window.matchMedia(COARSE_POINTER);
+    const onChange = (e: MediaQueryListEvent) => setCoarse(e.matches);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, []);
+
+  return coarse;
+};
@@ -0,0 +1,80 @@
+import { useSyncExternalStore } from 'react';
+
+// The intro fly-through shown on a first visit, and the guided tour that
+// drives to each section in manifest order.
+//
+// The camera plays the intro and reports which section it is passing; the
+// tour HUD walks the tour from one stop to the next. Both read and write here.
+
+export interface TourState {
+  // Index of the section the intro camera is passing, null when not playing
+  introStep: number | null;
+  // Index into the manifest's sections of the current tour stop, null when not touring
+  tourStep: number | null;
+}
+
+const INTRO_SEEN_KEY = 'portfolio.introSeen';
+
+const shouldPlayIntro = (): boolean => {
+  try {
+    if (localStorage.getItem(INTRO_SEEN_KEY)) return false;
+  } catch {
+    // Unavailable storage: play it, it's skippable
+  }
+  // No unrequested camera flights for visitors who asked for less motion
+  return !(typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches);
+};
+
+let state: TourState = { introStep: shouldPlayIntro() ? 0 : null, tourStep: null };
+const listeners = new Set<() => void>();
+
+const update = (next: TourState) => {
+  state = next;
+  listeners.forEach(l => l());
+};
+
+export const getTour = (): TourState => state;
+
+export const subscribeTour = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useTour = (): TourState => useSyncExternalStore(subscribeTour, getTour);
+
+export const playIntro = () => update({ introStep: 0, tourStep: null });
+
+export const setIntroStep = (step: number) => {
+  if (state.introStep === null || state.introStep === step) return;
+  update({ ...state, introStep: step });
+};
+
+/**
+ * End the intro, whether it ran out or was skipped. It won't autoplay again.
+ */
+export const finishIntro = () => {
+  if (state.introStep === null) return;
+  try {
+    localStorage.setItem(INTRO_SEEN_KEY, '1');
+  } catch {
+    // Private mode etc. It will play again next visit.
+  }
+  update({ ...state, introStep: null });
+};
+
+export const startTour = () => {
+  finishIntro();
+  update({ ...state, tourStep: 0 });
+};
+
+export const advanceTour = () => {
+  if (state.tourStep === null) return;
+  update({ ...state, tourStep: state.tourStep + 1 });
+};
+
+export const endTour = () => {
+  if (state.tourStep === null) return;
+  update({ ...state, tourStep: null });
+};
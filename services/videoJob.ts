@@ -0,0 +1,181 @@
+import { useSyncExternalStore } from 'react';
+import { GenerateVideosOperation } from '@google/genai';
+import { VideoGenerationState, VideoGenerationStage } from '../types';
+import {
+  startVideoGeneration,
+  waitForVideoOperation,
+  downloadVideos,
+  videoOperationFromName,
+  VideoGenerationOptions,
+  DEFAULT_VIDEO_OPTIONS,
+  DEFAULT_VIDEO_TIMEOUT_MS,
+} from './geminiService';
+
+// The Veo job behind VeoStudio. It lives here rather than in the component so
+// it keeps running while the overlay is closed. Once submitted, its operation
+// name is saved, so after a reload resumeVideoJob() picks the job back up
+// instead of losing a render that's still going server side.
+
+const STORAGE_KEY = 'portfolio.veoJob';
+
+interface SavedJob {
+  name: string;
+  startedAt: number;
+  timeoutMs: number;
+}
+
+const ACTIVE_STAGES: VideoGenerationStage[] = ['submitting', 'generating', 'downloading'];
+
+const STAGE_PROGRESS: Record<VideoGenerationStage, string> = {
+  idle: '',
+  submitting: 'Sending request to Veo...',
+  generating: 'Generating video (this may take a minute)...',
+  downloading: 'Downloading video...',
+  done: '',
+  failed: '',
+  cancelled: '',
+};
+
+// --- Persistence ---
+
+const loadJob = (): SavedJob | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const job = JSON.parse(raw);
+    if (typeof job?.name === 'string' && typeof job.startedAt === 'number' && typeof job.timeoutMs === 'number') {
+      return job;
+    }
+  } catch {
+    // Unavailable storage or a corrupt entry: nothing to resume
+  }
+  return null;
+};
+
+const saveJob = (job: SavedJob | null) => {
+  try {
+    if (job) localStorage.setItem(STORAGE_KEY, JSON.stringify(job));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // The job still runs, it just won't survive a reload
+  }
+};
+
+// --- Store ---
+
+let state: VideoGenerationState = {
+  isGenerating: false,
+  videoUrls: [],
+  error: null,
+  progress: '',
+  stage: 'idle',
+  elapsedMs: 0,
+};
+const listeners = new Set<() => void>();
+
+// The running job, if any. A newer job replaces it, and the old one's
+// late results are dropped.
+let controller: AbortController | null = null;
+let ticker: ReturnType<typeof setInterval> | null = null;
+
+const update = (next: Partial<VideoGenerationState>) => {
+  state = { ...state, ...next };
+  listeners.forEach(l => l());
+};
+
+const enterStage = (stage: VideoGenerationStage, next: Partial<VideoGenerationState> = {}) =>
+  update({ stage, progress: STAGE_PROGRESS[stage], isGenerating: ACTIVE_STAGES.includes(stage), ...next });
+
+const stopTicker = () => {
+  if (ticker !== null) clearInterval(ticker);
+  ticker = null;
+};
+
+export const getVideoJob = (): VideoGenerationState => state;
+
+export const subscribeVideoJob = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useVideoJob = (): VideoGenerationState => useSyncExternalStore(subscribeVideoJob, getVideoJob);
+
+const run = async (
+  firstStage: VideoGenerationStage,
+  startedAt: number,
+  timeoutMs: number,
+  submit: (signal: AbortSignal) => Promise<GenerateVideosOperation>
+) => {
+  controller?.abort();
+  const job = new AbortController();
+  controller = job;
+  state.videoUrls.forEach(url => URL.revokeObjectURL(url));
+  saveJob(null);
+
+  stopTicker();
+  enterStage(firstStage, { videoUrls: [], error: null, elapsedMs: Date.now() - startedAt });
+  ticker = setInterval(() => update({ elapsedMs: Date.now() - startedAt }), 1000);
+
+  try {
+    // A newer job may have taken over during any await; leave its state alone
+    const operation = await submit(job.signal);
+    if (controller !== job) return;
+    if (operation.name) saveJob({ name: operation.name, startedAt, timeoutMs });
+    enterStage('generating');
+    const finished = await waitForVideoOperation(operation, { signal: job.signal, timeoutMs, startedAt });
+    if (controller !== job) return;
+    enterStage('downloading');
+    const videoUrls = await downloadVideos(finished, job.signal);
+    if (controller !== job) {
+      videoUrls.forEach(url => URL.revokeObjectURL(url));
+      return;
+    }
+    saveJob(null);
+    stopTicker();
+    enterStage('done', { videoUrls, elapsedMs: Date.now() - startedAt });
+  } catch (e) {
+    if (controller !== job) return;
+    saveJob(null);
+    stopTicker();
+    if (job.signal.aborted) enterStage('cancelled');
+    else enterStage('failed', { error: (e instanceof Error && e.message) || 'Generation failed' });
+  } finally {
+    if (controller === job) controller = null;
+  }
+};
+
+/**
+ * Start a Veo job, from `imageFile` or text only when it's null, replacing
+ * any job already running. It fails with a timeout error once `timeoutMs`
+ * has passed since now.
+ */
+export const startVideoJob = (
+  imageFile: File | null,
+  prompt: string,
+  options: VideoGenerationOptions = DEFAULT_VIDEO_OPTIONS,
+  timeoutMs = DEFAULT_VIDEO_TIMEOUT_MS
+) => {
+  run('submitting', Date.now(), timeoutMs, signal => startVideoGeneration(imageFile, prompt, options, signal));
+};
+
+/**
+ * Pick up a job saved before the page was reloaded. Does nothing if a job is
+ * already running or none was saved; returns whether it resumed one.
+ */
+export const resumeVideoJob = (): boolean => {
+  if (controller) return false;
+  const saved = loadJob();
+  if (!saved) return false;
+  run('generating', saved.startedAt, saved.timeoutMs, async () => videoOperationFromName(saved.name));
+  return true;
+};
+
+/**
+ * Stop waiting for the current job. Veo has no cancel call, so the render
+ * carries on server side; its result is just never fetched.
+ */
+export const cancelVideoJob = () => {
+  controller?.abort();
+};
@@ -0,0 +1,148 @@
+import { useSyncExternalStore } from 'react';
+
+// Weather for the 3D world. Works like the time of day: the chosen mode is a
+// persisted setting, while the blended conditions change every frame and live
+// in the mutable `weather` object, refreshed by advanceWeather().
+
+export type WeatherKind = 'clear' | 'overcast' | 'rain' | 'fog';
+export type WeatherMode = 'auto' | WeatherKind;
+
+export const WEATHER_MODES: { mode: WeatherMode; label: string }[] = [
+  { mode: 'auto', label: 'Auto' },
+  { mode: 'clear', label: 'Clear' },
+  { mode: 'overcast', label: 'Overcast' },
+  { mode: 'rain', label: 'Rain' },
+  { mode: 'fog', label: 'Fog' },
+];
+
+interface WeatherTarget {
+  // 0..1 cloud opacity
+  clouds: number;
+  // 0..1 share of rain drops drawn
+  rain: number;
+  fogNear: number;
+  fogFar: number;
+  // Multiplier on sunlight and environment light
+  sunScale: number;
+}
+
+const TARGETS: Record<WeatherKind, WeatherTarget> = {
+  // The original scene: fog 20..100, full sun
+  clear: { clouds: 0.15, rain: 0, fogNear: 20, fogFar: 100, sunScale: 1 },
+  overcast: { clouds: 0.9, rain: 0, fogNear: 15, fogFar: 85, sunScale: 0.55 },
+  rain: { clouds: 1, rain: 1, fogNear: 10, fogFar: 65, sunScale: 0.4 },
+  fog: { clouds: 0.4, rain: 0, fogNear: 2, fogFar: 35, sunScale: 0.6 },
+};
+
+// Seconds for conditions to get ~63% of the way to a new weather
+const TRANSITION_SECONDS = 6;
+// The road takes a while to get wet and longer to dry
+const WETTING_SECONDS = 20;
+const DRYING_SECONDS = 60;
+// How long auto mode holds each weather
+const AUTO_MIN_SECONDS = 90;
+const AUTO_MAX_SECONDS = 180;
+// Auto mode is mostly fair weather
+const AUTO_WEIGHTS: [WeatherKind, number][] = [['clear', 4], ['overcast', 2], ['rain', 2], ['fog', 1]];
+
+const STORAGE_KEY = 'portfolio.weather';
+
+// --- Settings store ---
+
+const loadMode = (): WeatherMode => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (WEATHER_MODES.some(m => m.mode === stored)) return stored as WeatherMode;
+  } catch {
+    // Unavailable storage: default to auto
+  }
+  return 'auto';
+};
+
+let mode: WeatherMode = loadMode();
+let autoKind: WeatherKind = 'clear';
+let autoRemaining = AUTO_MIN_SECONDS;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(l => l());
+
+export const getWeatherMode = (): WeatherMode => mode;
+
+export const subscribeWeather = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useWeatherMode = (): WeatherMode =>
+  useSyncExternalStore(subscribeWeather, getWeatherMode);
+
+export const setWeatherMode = (next: WeatherMode) => {
+  mode = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // Private mode etc. The choice still applies for this visit.
+  }
+  notify();
+};
+
+/**
+ * The weather being blended towards: the pick in manual modes, or auto's current choice.
+ */
+export const getCurrentWeather = (): WeatherKind => (mode === 'auto' ? autoKind : mode);
+
+export const useCurrentWeather = (): WeatherKind =>
+  useSyncExternalStore(subscribeWeather, getCurrentWeather);
+
+const pickAutoWeather = (): WeatherKind => {
+  const options = AUTO_WEIGHTS.filter(([kind]) => kind !== autoKind);
+  let roll = Math.random() * options.reduce((sum, [, w]) => sum + w, 0);
+  for (const [kind, weight] of options) {
+    roll -= weight;
+    if (roll <= 0) return kind;
+  }
+  return options[0][0];
+};
+
+// --- Live conditions ---
+
+export interface WeatherState extends WeatherTarget {
+  // 0 = dry road, 1 = soaked; lags behind the rain
+  wetness: number;
+}
+
+// Starts settled on the initial weather rather than blending in from clear
+export const weather: WeatherState = {
+  ...TARGETS[getCurrentWeather()],
+  wetness: TARGETS[getCurrentWeather()].rain,
+};
+
+/**
+ * Move the weather forward by one rendered frame.
+ */
+export const advanceWeather = (delta: number): WeatherState => {
+  if (mode === 'auto') {
+    autoRemaining -= delta;
+    if (autoRemaining <= 0) {
+      autoKind = pickAutoWeather();
+      autoRemaining = AUTO_MIN_SECONDS + Math.random() * (AUTO_MAX_SECONDS - AUTO_MIN_SECONDS);
+      notify();
+    }
+  }
+
+  const target = TARGETS[getCurrentWeather()];
+  const t = 1 - Math.exp(-delta / TRANSITION_SECONDS);
+  weather.clouds += (target.clouds - weather.clouds) * t;
+  weather.rain += (target.rain - weather.rain) * t;
+  weather.fogNear += (target.fogNear - weather.fogNear) * t;
+  weather.fogFar += (target.fogFar - weather.fogFar) * t;
+  weather.sunScale += (target.sunScale - weather.sunScale) * t;
+
+  const wetting = weather.rain > weather.wetness;
+  const rate = 1 - Math.exp(-delta / (wetting ? WETTING_SECONDS : DRYING_SECONDS));
+  weather.wetness += (weather.rain - weather.wetness) * rate;
+
+  return weather;
+};
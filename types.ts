@@ -7,11 +7,18 @@ export enum AppSection {
   SKILLS = 'SKILLS'
 }
 
+// Where a Veo job is up to
+export type VideoGenerationStage = 'idle' | 'submitting' | 'generating' | 'downloading' | 'done' | 'failed' | 'cancelled';
+
 export interface VideoGenerationState {
   isGenerating: boolean;
-  videoUrl: string | null;
+  // One per generated video
+  videoUrls: string[];
   error: string | null;
   progress: string;
+  stage: VideoGenerationStage;
+  // Milliseconds since the job was submitted, 0 when there's no job
+  elapsedMs: number;
 }
 
 export interface ImageEditingState {
@@ -20,8 +27,66 @@ export interface ImageEditingState {
   error: string | null;
 }
 
+// Analog driving input from a non-keyboard source (gamepad, touch joystick)
+export interface ControlInput {
+  throttle: number; // 0..1
+  brake: number;    // 0..1
+  steer: number;    // -1..1, positive = left (matches car rotation direction)
+  boost: boolean;
+  handbrake: boolean;
+  reset: boolean;
+  interact: boolean;
+}
+
 export type Coordinates = {
   x: number;
   y: number;
   z: number;
-};
\ No newline at end of file
+};
+
+// --- PORTFOLIO MANIFEST ---
+
+export type Vec3Tuple = [number, number, number];
+
+export interface SectionEntry {
+  id: AppSection;
+  label: string;
+  subtext?: string;
+  color: string;
+  position: Vec3Tuple;
+}
+
+export interface SkillEntry {
+  name: string;
+  level: number;
+}
+
+export interface ContactLink {
+  label: string;
+  href: string;
+  primary?: boolean;
+}
+
+export interface PortfolioManifest {
+  owner: {
+    name: string;
+    tagline: string;
+  };
+  sections: SectionEntry[];
+  about: {
+    title: string;
+    subtitle: string;
+    paragraphs: string[];
+    photoUrl?: string;
+  };
+  skills: {
+    title: string;
+    subtitle: string;
+    items: SkillEntry[];
+  };
+  contact: {
+    title: string;
+    body: string;
+    links: ContactLink[];
+  };
+}